@@ -3,6 +3,7 @@ import path from 'path';
 import publicIp from 'qiao-get-ip';
 import { fileURLToPath } from 'url';
 import { cpus } from 'os';
+import { randomBytes } from 'crypto';
 import { LlamaModelOptions, LlamaOptions } from 'node-llama-cpp';
 import { VAD_OPTIONS_DEFAULT } from './whisper/vad_adapter.js';
 import { WhisperOptions } from './whisper/whisper.js';
@@ -18,17 +19,71 @@ const configuration = {
     HTTP_PORT: 8080,
     HTTPS_PORT: 8443,
 
-    WORKER_COUNT: 1,
+    EXTRACTION_WORKER_COUNT: 1,
+    GENERATION_WORKER_COUNT: 1,
+    OCR_WORKER_COUNT: Math.max(1, Math.floor(cpus().length / 2)),
+    WORKER_RESTART_DELAY: 5000,
+    WORKER_MAX_HEAP_SIZE: 4096,
+    STAGE_TIMEOUTS: { UPLOAD: 60 * 60 * 1000, EXTRACT: 30 * 60 * 1000, GENERATE: 60 * 60 * 1000 },
     GLOSSARY_MODEL: 'LiquidAI/LFM2-1.2B-GGUF/LFM2-1.2B-Q8_0.gguf',
     GLOSSARY_OPTIONS: { model: { modelPath: null, gpuLayers: 'auto' }, llama: { gpu: 'vulkan' } } as unknown as { llama: LlamaOptions, model: LlamaModelOptions },
     OPENAI_API_KEY: (process.env.OPENAI_API_KEY || '').split(';')[0],
+    ADMIN_TOKEN: process.env.ADMIN_TOKEN || '',
+    SESSION_SECRET: process.env.SESSION_SECRET || randomBytes(32).toString('hex'),
 
     WHISER_OPTIONS: { modelName: 'ggml-large-v3.bin' , gpu: true, threads: 8, beamSize: 5, temperature: 0, language: 'auto', backend: 'vulkan' } as WhisperOptions,
     VAD_ADAPTER_OPTIONS: VAD_OPTIONS_DEFAULT,
 
     DEFAULT_GLOSSARY_GENERATOR: 'lmstudio' as GlossaryGeneratorType,
+    ALLOWED_GLOSSARY_GENERATORS: ['lmstudio', 'llama', 'openai', 'googleai'] as GlossaryGeneratorType[],
+    GLOSSARY_OPTIONS_LIMITS: { MIN_TEMPERATURE: 0, MAX_TEMPERATURE: 2, MIN_CONTEXT: 1024, MAX_CONTEXT: 32768, MAX_PROMPT_LENGTH: 4000 },
     JOB_TRACKER_DELTA_THRESHOLD: 0.1,
+    JOB_RETENTION_TIME: 60 * 60 * 1000,
+    JOB_HISTORY_LIMIT: 100,
+    QUEUE: { MAX_PER_CLIENT: 10, DEFAULT_PRIORITY: 0, REPROCESS_PRIORITY: 10 },
+    THROUGHPUT: { SMOOTHING: 0.2 },
+    PDF_OCR: { DPI: 300, MIN_TEXT_LENGTH: 16, MAX_GARBAGE_RATIO: 0.3 },
+    OCR_LANGUAGES: {
+        DEFAULT: ['eng', 'lav'],
+        ALLOWED: ['eng', 'lav', 'lit', 'est', 'rus', 'ukr', 'deu', 'fra'],
+        MAX_SELECTED: 4,
+        SCRIPTS: { Latin: ['eng', 'lav', 'lit'], Cyrillic: ['rus', 'ukr'] } as { [script: string]: string[] },
+    },
+    OCR_PREPROCESS: {
+        ENABLED: true,
+        COMPARE_RAW: true,
+        ORIENTATION: true,
+        MIN_ORIENTATION_CONFIDENCE: 2,
+        UPSCALE_MIN_WIDTH: 1200,
+        GRAYSCALE: true,
+        NORMALIZE: true,
+        BINARIZE: true,
+        BINARIZE_RADIUS: 15,
+        BINARIZE_OFFSET: 10,
+        DESKEW: true,
+        DESKEW_MAX_ANGLE: 5,
+        DESKEW_STEP: 0.5,
+    },
+    OCR_FILTER: {
+        WORD_CONFIDENCE: 40,
+        LINE_CONFIDENCE: 30,
+        BLOCK_CONFIDENCE: 20,
+        EXCLUDE_LOW_QUALITY: true,
+        MIN_IMAGE_CONFIDENCE: 35,
+        MAX_GARBAGE_RATIO: 0.6,
+    },
+    OCR_CACHE: {
+        ENABLED: true,
+        DIRECTORY: path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'storage', 'ocr'),
+        EXPIRATION: 30 * 24 * 60 * 60 * 1000,
+        MAX_SIZE: 512 * 1024 * 1024,
+        CLEANUP_INTERVAL: 60 * 60 * 1000,
+        DROP_REPEATED: false,
+    },
+    RATE_LIMITS: { REQUESTS_PER_MINUTE: 300, UPLOADS_PER_DAY: 100, BYTES_PER_DAY: 5 * 1024 * 1024 * 1024, TOKENS_PER_DAY: 5 * 1000 * 1000 },
     MAX_FILENAME_LENGTH: 250,
+    MAX_UPLOAD_FILES: 20,
+    RESUMABLE_UPLOAD: { EXPIRATION: 24 * 60 * 60 * 1000, CLEANUP_INTERVAL: 5 * 60 * 1000 },
     PUBLIC_IP_ADDRESS: null as unknown as string,
     HASH_REGEX: new RegExp(/^[a-f0-9]{64}$/i),
     UUIDV4_REGEX: new RegExp(/^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/i),
@@ -89,6 +144,7 @@ const configuration = {
             { name: 'content_type', type: 'TEXT' },
             { name: 'size', type: 'INTEGER' },
             { name: 'extracted_text', type: 'TEXT' },
+            { name: 'extracted_segments', type: 'TEXT', sensitive: true },
             { name: 'extracted_glossary', type: 'TEXT' },
             { name: 'glossary_implementation', type: 'TEXT', sensitive: true },
             { name: 'ip_address', type: 'TEXT', sensitive: true },
@@ -105,9 +161,49 @@ const configuration = {
             { name: 'ip_address', type: 'TEXT', sensitive: true },
             { name: 'creation_date', type: 'INTEGER' },
         ],
+        'jobs': [
+            { name: 'id', type: 'TEXT', pkey: true },
+            { name: 'status', type: 'TEXT' },
+            { name: 'filename', type: 'TEXT' },
+            { name: 'content_type', type: 'TEXT' },
+            { name: 'file_path', type: 'TEXT', sensitive: true },
+            { name: 'hash', type: 'TEXT' },
+            { name: 'generator', type: 'TEXT', sensitive: true },
+            { name: 'options', type: 'TEXT', sensitive: true },
+            { name: 'glossary', type: 'TEXT' },
+            { name: 'priority', type: 'INTEGER', default_value: 0, sensitive: true },
+            { name: 'message', type: 'TEXT' },
+            { name: 'error', type: 'TEXT' },
+            { name: 'duration', type: 'INTEGER', default_value: 0 },
+            { name: 'ip_address', type: 'TEXT', sensitive: true },
+            { name: 'owner', type: 'TEXT', sensitive: true },
+            { name: 'creation_date', type: 'INTEGER' },
+            { name: 'update_date', type: 'INTEGER', sensitive: true },
+        ],
+        'glossaries': [
+            { name: 'uid', type: 'TEXT', pkey: true },
+            { name: 'hash', type: 'TEXT' },
+            { name: 'generator', type: 'TEXT' },
+            { name: 'options', type: 'TEXT' },
+            { name: 'extracted_glossary', type: 'TEXT' },
+            { name: 'glossary_implementation', type: 'TEXT', sensitive: true },
+            { name: 'ip_address', type: 'TEXT', sensitive: true },
+            { name: 'creation_date', type: 'INTEGER' },
+        ],
+        'throughput': [
+            { name: 'key', type: 'TEXT', pkey: true },
+            { name: 'units', type: 'INTEGER', default_value: 0 },
+            { name: 'milliseconds', type: 'INTEGER', default_value: 0 },
+            { name: 'samples', type: 'INTEGER', default_value: 0 },
+            { name: 'update_date', type: 'INTEGER' },
+        ],
         'users': [
             { name: 'ip_address', type: 'TEXT', pkey: true },
             { name: 'banned', type: 'INTEGER', default_value: 0 },
+            { name: 'day_start', type: 'INTEGER', default_value: 0, sensitive: true },
+            { name: 'day_uploads', type: 'INTEGER', default_value: 0, sensitive: true },
+            { name: 'day_bytes', type: 'INTEGER', default_value: 0, sensitive: true },
+            { name: 'day_tokens', type: 'INTEGER', default_value: 0, sensitive: true },
             { name: 'creation_date', type: 'INTEGER' },
             { name: 'access_date', type: 'INTEGER', sensitive: true },
         ]
@@ -116,16 +212,29 @@ const configuration = {
 
 const ERROR_CODES = {
     '200.0': { code: 200, message: 'The operation completed successfully.' },
+    '202.0': { code: 202, message: 'Accepted: The job is still in progress.' },
     '400.0': { code: 400, message: 'Bad Request.' },
     '400.1': { code: 400, message: 'Bad Request: "hashes" must be a non-empty array of strings of sha256.' },
     '400.2': { code: 400, message: `Bad Request: Filename too short or too long.` },
     '400.3': { code: 400, message: `Bad Request: Unsuported file type or file size.` },
     '400.4': { code: 400, message: `Bad Request: Incorrect queue identifier.` },
+    '400.5': { code: 400, message: `Bad Request: Unknown glossary generator or invalid generator options.` },
     '403.0': { code: 403, message: 'Access Forbidden.' },
     '403.1': { code: 403, message: 'Invalid IP Address.' },
     '404.0': { code: 404, message: 'Not Found.' },
+    '408.0': { code: 408, message: 'Request Timeout: The upload exceeded its time limit.' },
+    '409.0': { code: 409, message: 'Conflict: Upload offset does not match.' },
+    '429.0': { code: 429, message: 'Too Many Requests: Too many queued jobs.' },
+    '429.1': { code: 429, message: 'Too Many Requests: Rate limit exceeded, retry later.' },
+    '429.2': { code: 429, message: 'Too Many Requests: Daily quota exceeded, retry later.' },
     '444.0': { code: 444, message: 'No Response.' },
+    '499.0': { code: 499, message: 'Client Closed Request: The job was cancelled.' },
     '500.0': { code: 500, message: 'Internal Server Error.' },
+    '500.1': { code: 500, message: 'Internal Server Error: The worker crashed while processing the job.' },
+    '500.2': { code: 500, message: 'Internal Server Error: Text extraction exceeded its time limit.' },
+    '500.3': { code: 500, message: 'Internal Server Error: Glossary generation exceeded its time limit.' },
+    '500.4': { code: 500, message: 'Internal Server Error: The worker exceeded its memory limit.' },
+    '500.5': { code: 500, message: 'Internal Server Error: No text could be extracted from the file.' },
     '503.0': { code: 503, message: 'Service Unavailable.' },
 } as const;
 
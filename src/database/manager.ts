@@ -1,8 +1,11 @@
 import config from '../config.js';
-import { GlossaryEntry, GlossaryReport } from '../glossary/glossary.js';
+import { GlossaryEntry, GlossaryOptions, GlossaryReport } from '../glossary/glossary.js';
+import { TextSegment } from '../processors/file_processor.js';
 import Database from './database.js';
 import { createHash } from 'node:crypto';
 
+export type UsageDelta = { uploads?: number, bytes?: number, tokens?: number };
+
 export class DatabaseManager {
     private static db: Database<typeof config.DATABASE_TABLES>;
 
@@ -29,14 +32,40 @@ export class DatabaseManager {
     }
 
     public static async setIPBanned(ip_address: string, banned: boolean) {
-        var user = await this.db.models.users.find(ip_address);
-        if (!user) { user = this.db.models.users.create(ip_address, 0, Date.now(), Date.now()); }
+        var user = await this.getUser(ip_address);
         if (user.banned == Number(banned)) { return; } else { user.banned = Number(banned); }
         await user.save();
     }
 
-    public static async createFile(hash: string, filename: string, mimeType: string, size: number, text: string, glossary: GlossaryReport, ip_address: string): Promise<JSON> {
-        var file = this.db.models.files.create(hash, filename, mimeType, size, text, JSON.stringify(glossary), glossary.implementation, ip_address, Date.now(), Date.now());
+    private static async getUser(ip_address: string) {
+        var user = await this.db.models.users.find(ip_address);
+        if (!user) { user = this.db.models.users.create(ip_address, 0, 0, 0, 0, 0, Date.now(), Date.now()); }
+        if (Date.now() - user.day_start >= 24 * 60 * 60 * 1000) { Object.assign(user, { day_start: Date.now(), day_uploads: 0, day_bytes: 0, day_tokens: 0 }); }
+        return user;
+    }
+
+    public static async checkDailyQuota(ip_address: string, usage: UsageDelta): Promise<number> {
+        this.assertInitialized();
+        var user = await this.getUser(ip_address);
+        const { UPLOADS_PER_DAY, BYTES_PER_DAY, TOKENS_PER_DAY } = config.RATE_LIMITS;
+        const exceeded = ((UPLOADS_PER_DAY > 0) && (user.day_uploads + (usage.uploads || 0) > UPLOADS_PER_DAY))
+            || ((BYTES_PER_DAY > 0) && (user.day_bytes + (usage.bytes || 0) > BYTES_PER_DAY))
+            || ((TOKENS_PER_DAY > 0) && (user.day_tokens + (usage.tokens || 0) > TOKENS_PER_DAY));
+        return exceeded ? Math.ceil((user.day_start + 24 * 60 * 60 * 1000 - Date.now()) / 1000) : 0;
+    }
+
+    public static async addDailyUsage(ip_address: string, usage: UsageDelta): Promise<boolean> {
+        this.assertInitialized();
+        var user = await this.getUser(ip_address);
+        user.day_uploads += (usage.uploads || 0);
+        user.day_bytes += (usage.bytes || 0);
+        user.day_tokens += (usage.tokens || 0);
+        user.access_date = Date.now();
+        return (await user.save()).status as boolean;
+    }
+
+    public static async createFile(hash: string, filename: string, mimeType: string, size: number, text: string, segments: TextSegment[], glossary: GlossaryReport, ip_address: string): Promise<JSON> {
+        var file = this.db.models.files.create(hash, filename, mimeType, size, text, JSON.stringify(segments), JSON.stringify(glossary), glossary.implementation, ip_address, Date.now(), Date.now());
         await file.save();
         return file.toObject(false) as JSON;
     }
@@ -50,6 +79,12 @@ export class DatabaseManager {
         return (await this.db.models.files.find(hash))?.extracted_text;
     }
 
+    public static async getFileSegments(hash: string): Promise<TextSegment[]> {
+        this.assertInitialized();
+        var extracted_segments = (await this.db.models.files.find(hash))?.extracted_segments;
+        return extracted_segments ? JSON.parse(extracted_segments) : [];
+    }
+
     public static async getFileGlossary(hash: string): Promise<GlossaryReport | null> {
         this.assertInitialized();
         var extracted_glossary = (await this.db.models.files.find(hash))?.extracted_glossary;
@@ -61,6 +96,85 @@ export class DatabaseManager {
         return (await this.db.models.files.columns.extracted_text.setValue(hash, text)).status as boolean;
     }
 
+    public static async createGlossaryRun(hash: string, generator: string, options: GlossaryOptions, glossary: GlossaryReport, ip_address: string): Promise<boolean> {
+        this.assertInitialized();
+        var run = this.db.models.glossaries.create(glossary.uid, hash, generator, JSON.stringify(options), JSON.stringify(glossary), glossary.implementation, ip_address, Date.now());
+        return (await run.save()).status as boolean;
+    }
+
+    public static async getGlossaryRun(uid: string): Promise<GlossaryReport | null> {
+        this.assertInitialized();
+        var extracted_glossary = (await this.db.models.glossaries.find(uid))?.extracted_glossary;
+        return extracted_glossary ? JSON.parse(extracted_glossary) : null;
+    }
+
+    public static async getThroughput(key: string): Promise<number | null> {
+        this.assertInitialized();
+        var throughput = await this.db.models.throughput.find(key);
+        return (throughput && (throughput.units > 0)) ? (throughput.milliseconds / throughput.units) : null;
+    }
+
+    public static async addThroughput(key: string, units: number, milliseconds: number): Promise<boolean> {
+        this.assertInitialized();
+        if (!(units > 0) || !(milliseconds >= 0)) { return false; }
+        var throughput = await this.db.models.throughput.find(key);
+        if (!throughput) { throughput = this.db.models.throughput.create(key, 0, 0, 0, Date.now()); }
+        const decay = (throughput.samples > 0) ? (1 - config.THROUGHPUT.SMOOTHING) : 0;
+        throughput.units = throughput.units * decay + units;
+        throughput.milliseconds = throughput.milliseconds * decay + milliseconds;
+        throughput.samples += 1;
+        throughput.update_date = Date.now();
+        return (await throughput.save()).status as boolean;
+    }
+
+    public static async createJob(id: string, status: string, filename: string, mimeType: string, filePath: string, hash: string, generator: string, options: GlossaryOptions, priority: number, ip_address: string, owner?: string): Promise<boolean> {
+        this.assertInitialized();
+        const THE_NULL = (null as unknown as string);
+        var job = this.db.models.jobs.create(id, status, filename, mimeType, filePath, hash, generator, JSON.stringify(options), THE_NULL, priority, THE_NULL, THE_NULL, 0, ip_address, owner || THE_NULL, Date.now(), Date.now());
+        return (await job.save()).status as boolean;
+    }
+
+    public static async getJob(id: string) {
+        this.assertInitialized();
+        return await this.db.models.jobs.find(id);
+    }
+
+    public static async getJobsByStatus(statuses: string[]) {
+        this.assertInitialized();
+        const results = await Promise.all(statuses.map(status => this.db.getRows('jobs', 'status', status)));
+        return results.flatMap(result => result.rows || []).sort((a, b) => a.creation_date - b.creation_date);
+    }
+
+    public static async setJobStatus(id: string, status: string, message?: string): Promise<boolean> {
+        this.assertInitialized();
+        var job = await this.db.models.jobs.find(id);
+        if (!job) { return false; }
+        job.status = status;
+        job.update_date = Date.now();
+        if (message) { job.message = message; }
+        return (await job.save()).status as boolean;
+    }
+
+    public static async finishJob(id: string, status: string, message?: string, error?: string, glossary?: string): Promise<boolean> {
+        this.assertInitialized();
+        var job = await this.db.models.jobs.find(id);
+        if (!job) { return false; }
+        job.status = status;
+        job.update_date = Date.now();
+        job.duration = job.update_date - job.creation_date;
+        job.message = message || (null as unknown as string);
+        job.error = error || (null as unknown as string);
+        job.glossary = glossary || (null as unknown as string);
+        return (await job.save()).status as boolean;
+    }
+
+    public static async getJobHistory(statuses: string[], ip_address?: string, owner?: string) {
+        this.assertInitialized();
+        const result = ip_address ? await this.db.getRows('jobs', 'ip_address', ip_address) : await this.db.getRows('jobs', 'creation_date', 0, '>');
+        const rows = (result.rows || []).filter(row => statuses.includes(row.status) && (!ip_address || !row.owner || (row.owner === owner)));
+        return rows.sort((a, b) => b.update_date - a.update_date).slice(0, config.JOB_HISTORY_LIMIT);
+    }
+
     private static async setActivityEntry(glossary_hash_combination: string, glossary_hash: string, entry_uid: string, event: string, data: string, ip_address: string): Promise<boolean> {
         const hash = createHash('sha256').update(glossary_hash_combination + glossary_hash + entry_uid + event + ip_address).digest('hex');
         let entry = await this.db.models.activity.find(hash);
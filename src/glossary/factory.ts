@@ -1,12 +1,15 @@
 import config from '../config.js';
-import { GlossaryGenerator } from './glossary.js';
+import { Utils } from '../utils.js';
+import { GlossaryGenerator, GlossaryOptions } from './glossary.js';
+import { ImageProcessor, OcrLanguages } from '../processors/image_processor.js';
 import { GoogleAIGlossary } from './models/googleai.js';
 import { LlamaGlossary } from './models/llama.js';
 import { LMStudioGlossary } from './models/lmstudio.js';
 import { LMStudioGlossaryV2 } from './models/lmstudioV2.js';
 import { OpenAIGlossary } from './models/openai.js';
 
-export type GlossaryGeneratorType = 'lmstudio' | 'lmstudioV2' | 'llama' | 'googleai' | 'openai';
+export const GLOSSARY_GENERATOR_TYPES = ['lmstudio', 'lmstudioV2', 'llama', 'googleai', 'openai'] as const;
+export type GlossaryGeneratorType = typeof GLOSSARY_GENERATOR_TYPES[number];
 
 export class GlossaryFactory {
     private static DEFAULT_GENERATOR: GlossaryGeneratorType = config.DEFAULT_GLOSSARY_GENERATOR;
@@ -25,4 +28,33 @@ export class GlossaryFactory {
     public static getDefaultGenerator(): GlossaryGeneratorType {
         return GlossaryFactory.DEFAULT_GENERATOR;
     }
+
+    public static isDefaultRun(generator?: GlossaryGeneratorType, options: GlossaryOptions = {}): boolean {
+        return ((generator || GlossaryFactory.DEFAULT_GENERATOR) === GlossaryFactory.DEFAULT_GENERATOR) && Object.values(options).every(value => value === undefined);
+    }
+
+    public static isGeneratorType(type: any): type is GlossaryGeneratorType {
+        return GLOSSARY_GENERATOR_TYPES.includes(type);
+    }
+
+    public static isAllowedGenerator(type: any): type is GlossaryGeneratorType {
+        return GlossaryFactory.isGeneratorType(type) && ((type === GlossaryFactory.DEFAULT_GENERATOR) || config.ALLOWED_GLOSSARY_GENERATORS.includes(type));
+    }
+
+    public static parseOptions(input: any): GlossaryOptions | null {
+        const { MIN_TEMPERATURE, MAX_TEMPERATURE, MIN_CONTEXT, MAX_CONTEXT, MAX_PROMPT_LENGTH } = config.GLOSSARY_OPTIONS_LIMITS;
+        const { temperature, context, prompt, ocr } = input || {};
+        const options: GlossaryOptions = {};
+
+        if (temperature !== undefined) { options.temperature = Number(temperature); }
+        if (context !== undefined) { options.context = Number(context); }
+        if (prompt !== undefined) { options.prompt = prompt; }
+        if (ocr !== undefined) { options.ocr = ImageProcessor.parseLanguages(ocr) as OcrLanguages; }
+
+        if ((options.temperature !== undefined) && !(Number.isFinite(options.temperature) && Utils.between(options.temperature, MIN_TEMPERATURE, MAX_TEMPERATURE))) { return null; }
+        if ((options.context !== undefined) && !(Number.isInteger(options.context) && Utils.between(options.context, MIN_CONTEXT, MAX_CONTEXT))) { return null; }
+        if ((options.prompt !== undefined) && !((typeof options.prompt === 'string') && Utils.between(options.prompt.trim().length, 1, MAX_PROMPT_LENGTH))) { return null; }
+        if ((ocr !== undefined) && !options.ocr) { return null; }
+        return options;
+    }
 }
\ No newline at end of file
@@ -1,6 +1,8 @@
 import EventEmitter from 'events';
 import { Tokenizer } from './tokenizer.js';
 import { Utils } from '../utils.js';
+import { SourceLocation, TextSegment } from '../processors/file_processor.js';
+import { OcrLanguages } from '../processors/image_processor.js';
 
 export type GlossaryEntry = {
     uid: string;
@@ -9,6 +11,7 @@ export type GlossaryEntry = {
     sentence: string;
     language: string;
     generated: boolean;
+    source?: SourceLocation;
 };
 
 export type GlossaryReport = {
@@ -25,6 +28,19 @@ export type GlossaryReport = {
     glossary: GlossaryEntry[];
 };
 
+export type GlossaryPartial = {
+    chunk: number;
+    total: number;
+    entries: GlossaryEntry[];
+};
+
+export type GlossaryOptions = {
+    temperature?: number;
+    context?: number;
+    prompt?: string;
+    ocr?: OcrLanguages;
+};
+
 export enum ProgressLevel {
     LOADING_MODEL = 'loading_model',
     PROMPTING = 'prompting',
@@ -39,6 +55,8 @@ export abstract class GlossaryGenerator extends EventEmitter {
     protected errors: string[] = [];
     protected currentChunk: number = 0;
     protected totalChunks: number = 0;
+    protected signal?: AbortSignal;
+    protected glossaryOptions: GlossaryOptions = {};
 
     protected constructor(implementation: string) {
         super();
@@ -57,6 +75,14 @@ export abstract class GlossaryGenerator extends EventEmitter {
         return await Tokenizer.countTokens(text);
     }
 
+    public setSignal(signal?: AbortSignal) {
+        this.signal = signal;
+    }
+
+    public setOptions(options: GlossaryOptions = {}) {
+        this.glossaryOptions = options;
+    }
+
     public setProgress(progress: number, level?: ProgressLevel) {
         if (progress < this.progress) { return; }
         this.progress = Utils.clamp(progress, 0, 100);
@@ -72,6 +98,11 @@ export abstract class GlossaryGenerator extends EventEmitter {
         return this.progress;
     }
 
+    public emitEntries(report: Partial<GlossaryReport> | null, chunk: number, total: number) {
+        const entries = (report?.glossary || []).filter(entry => entry?.term).map(entry => ({ ...entry, term: entry.term.trim(), definition: entry.definition?.trim() }));
+        if (entries.length > 0) { this.emit('entries', { chunk, total, entries } as GlossaryPartial); }
+    }
+
     public addError(error: string) {
         this.errors.push(error);
     }
@@ -111,4 +142,40 @@ export abstract class GlossaryGenerator extends EventEmitter {
         if (debugInfo) { finalReport.debug_info = { ...debugInfo, errors: this.errors }; }
         return finalReport;
     }
+
+    public static attachSources(report: GlossaryReport, segments: TextSegment[]): GlossaryReport {
+        const located = (segments || []).filter(segment => segment.location).map(segment => ({ text: segment.text.toLowerCase(), location: segment.location }));
+        if (located.length === 0) { return report; }
+
+        const findSource = (value?: string) => {
+            const needle = value?.trim().toLowerCase();
+            return needle ? located.find(segment => segment.text.includes(needle))?.location : undefined;
+        };
+
+        for (const entry of report.glossary || []) {
+            const source = findSource(entry.sentence) || findSource(entry.term);
+            if (source) { entry.source = source; }
+        }
+
+        return report;
+    }
+
+    public static mergeReports(reports: GlossaryReport[], deduplicate: boolean = true): GlossaryReport {
+        const combinedGlossary = reports.flatMap((report) => report.glossary || []);
+
+        let uniqueGlossary = combinedGlossary;
+        if (deduplicate) { uniqueGlossary = Array.from(new Map(combinedGlossary.map((item) => [item?.term.toLowerCase(), item])).values()); }
+
+        return {
+            uid: crypto.randomUUID(),
+            domain: [...new Set(reports.map(report => report.domain).filter(domain => domain))].join('; ') || 'unknown',
+            language: Utils.mostCommonBy(uniqueGlossary, entry => entry?.language) ?? 'unknown',
+            implementation: [...new Set(reports.map(report => report.implementation))].join('; '),
+            timestamp_start: Math.min(...reports.map(report => report.timestamp_start)),
+            timestamp_end: Math.max(...reports.map(report => report.timestamp_end)),
+            error_count: reports.reduce((sum, report) => sum + (report.error_count || 0), 0),
+            retry_error_count: reports.reduce((sum, report) => sum + (report.retry_error_count || 0), 0),
+            glossary: uniqueGlossary,
+        };
+    }
 }
\ No newline at end of file
@@ -7,6 +7,7 @@ import { getLlama, Llama, LlamaChatSession, LlamaModel, LlamaModelOptions, Llama
 import { Tokenizer } from '../tokenizer.js';
 import { GlossaryGenerator, GlossaryReport } from '../glossary.js';
 import { Utils } from '../../utils.js';
+import { Semaphore } from '../../queue.js';
 
 export class LlamaGlossary extends GlossaryGenerator {
     public static AI_GLOSSARY_PROMPT = 'Your task is to analyze the provided text and generate a glossary ' +
@@ -30,7 +31,7 @@ export class LlamaGlossary extends GlossaryGenerator {
     public static MODELS_DIRECTORY = path.resolve(config.BASE_DIRECTORY, 'models');
     public static LLAMA_DEFAULT_MODEL = 'LiquidAI/LFM2-1.2B-GGUF/LFM2-1.2B-Q8_0.gguf';
     public static DEFAULT_CONTEXT_SIZE = 4096;
-    private static loading: boolean = false;
+    private static loader: Semaphore = new Semaphore(1);
     private options: { llama: LlamaOptions, model: LlamaModelOptions };
     private modelName: string;
     private contextSize: number;
@@ -73,9 +74,9 @@ export class LlamaGlossary extends GlossaryGenerator {
 
         if (!this.model) { await this.init(); }
         var flashAttention = this.model.flashAttentionSupported;
-        var context = await this.model.createContext({ contextSize: this.contextSize, flashAttention });
+        var context = await this.model.createContext({ contextSize: this.glossaryOptions.context ?? this.contextSize, flashAttention });
         const session = new LlamaChatSession({ contextSequence: context.getSequence() });
-        var result = await session.prompt(prompt, { onResponseChunk: (chunk) => this.emit('response_chunk', chunk) });
+        var result = await session.prompt(prompt, { temperature: this.glossaryOptions.temperature, onResponseChunk: (chunk) => this.emit('response_chunk', chunk) });
         await session.dispose();
         await context.dispose();
         return result;
@@ -84,20 +85,20 @@ export class LlamaGlossary extends GlossaryGenerator {
     public async createGlossary(text: string): Promise<GlossaryReport | null> {
         if (text === undefined) { throw new Error('[LlamaGlossary.createGlossary] Text cannot be undefined!') }
         console.debug(`[LlamaGlossary.createGlossary] -> input: "${Tokenizer.cleanText(text).slice(0, 100)}...", size: ${text?.length}/${Tokenizer.cleanText(text).length}`);
-        const { chunkSize, prompts } = await Tokenizer.preparePrompts(text, LlamaGlossary.AI_GLOSSARY_PROMPT, this.contextSize, (text) => this.tokenizer(text));
+        const prompt = this.glossaryOptions.prompt ?? LlamaGlossary.AI_GLOSSARY_PROMPT;
+        const { chunkSize, prompts } = await Tokenizer.preparePrompts(text, prompt, this.glossaryOptions.context ?? this.contextSize, (text) => this.tokenizer(text));
         console.debug(`[LlamaGlossary.createGlossary] -> chunkSize: ${chunkSize}, prompts.length: ${prompts.length}`);
 
         for (var i = 0; i < prompts.length; i++) {
-            console.debug(`[LlamaGlossary.promt] -> input: ${prompts[i].slice(LlamaGlossary.AI_GLOSSARY_PROMPT.length).slice(0, 500)}`);
+            console.debug(`[LlamaGlossary.promt] -> input: ${prompts[i].slice(prompt.length).slice(0, 500)}`);
             prompts[i] = await this.promt(prompts[i]);
             console.debug(`[LlamaGlossary.promt] -> output: ${prompts[i]}`);
             this.emit('progress', (i+1)/prompts.length*100);
+            const json = LlamaGlossary.parseOutput(prompts[i]);
+            this.emitEntries({ glossary: (json?.glossary || []).map((item: any) => ({ ...item, term: item?.term ?? item?.name })) }, i, prompts.length);
         }
 
-        const jsons = prompts.map(output => {
-            try { return JSON.parse(output.match(/\{[\s\S]*\}/)[0]); }
-            catch (error) { return null; }
-        }).filter(e => e);
+        const jsons = prompts.map(output => LlamaGlossary.parseOutput(output)).filter(e => e);
 
         const combinedGlossary = jsons.flatMap((j: any) => j?.glossary || []);
 
@@ -109,6 +110,11 @@ export class LlamaGlossary extends GlossaryGenerator {
         return { glossary: uniqueGlossary } as unknown as GlossaryReport;
     }
 
+    public static parseOutput(output: string): any {
+        try { return JSON.parse(output.match(/\{[\s\S]*\}/)[0]); }
+        catch (error) { return null; }
+    }
+
     public static parseModelPath(fullPath: string): { modelName: string, fileName: string } {
         const lastSlashIndex = fullPath.lastIndexOf('/');
         if (lastSlashIndex === -1) { return { modelName: '', fileName: fullPath }; }
@@ -136,19 +142,18 @@ export class LlamaGlossary extends GlossaryGenerator {
     }
 
     public static async getGGUFModel(modelName, fileName: string, task?: PipelineType): Promise<string>  {
-        while (LlamaGlossary.loading) { await new Promise(res => setTimeout(res, 1)); }
-        var modelInfo = await LlamaGlossary.findGGUFModel(modelName, fileName, task);
-        if (!modelInfo) { throw new Error(`Model '${modelName}' with file '${fileName}' could not be found on the Hugging Face Hub.`); }
-        LlamaGlossary.loading = true;
-
-        const modelPath = path.resolve(LlamaGlossary.MODELS_DIRECTORY, modelInfo.model.name.split('/')[0], modelInfo.model.name.split('/')[1], fileName);
-        try { await fsp.mkdir(LlamaGlossary.MODELS_DIRECTORY, { recursive: true }); } catch (e) { return LlamaGlossary.loading = null; }
-        try { var fsize = (await fsp.stat(modelPath)).size } catch (e) { fsize = 0; }
-        if (fsize > 0) { return modelPath; }
-
-        var result = await sutils.download(modelInfo.url, {}, modelPath, { text: `Downloading model "${fileName}"` });
-        LlamaGlossary.loading = false;
-        return result.status ? modelPath : null;
+        return await LlamaGlossary.loader.use(async () => {
+            var modelInfo = await LlamaGlossary.findGGUFModel(modelName, fileName, task);
+            if (!modelInfo) { throw new Error(`Model '${modelName}' with file '${fileName}' could not be found on the Hugging Face Hub.`); }
+
+            const modelPath = path.resolve(LlamaGlossary.MODELS_DIRECTORY, modelInfo.model.name.split('/')[0], modelInfo.model.name.split('/')[1], fileName);
+            try { await fsp.mkdir(LlamaGlossary.MODELS_DIRECTORY, { recursive: true }); } catch (e) { return null; }
+            try { var fsize = (await fsp.stat(modelPath)).size } catch (e) { fsize = 0; }
+            if (fsize > 0) { return modelPath; }
+
+            var result = await sutils.download(modelInfo.url, {}, modelPath, { text: `Downloading model "${fileName}"` });
+            return result.status ? modelPath : null;
+        });
     }
 
     public static async getModel(modelPath?: string): Promise<string> {
@@ -1,5 +1,5 @@
 import config from "../../config.js";
-import { GlossaryGenerator, GlossaryReport, ProgressLevel } from "../glossary.js";
+import { GlossaryGenerator, GlossaryOptions, GlossaryReport, ProgressLevel } from "../glossary.js";
 import { LLM, LLMPredictionFragment, LLMRespondOpts, LMStudioClient, StructuredPredictionResult } from "@lmstudio/sdk";
 import { Tokenizer } from "../tokenizer.js";
 import { Utils } from "../../utils.js";
@@ -53,6 +53,7 @@ export class LMStudioGlossary extends GlossaryGenerator {
     protected cpuThreads: number;
     protected deduplicate: boolean;
     protected seed: number;
+    private defaults?: { temperature: number, contextLength: number, prompt: string };
 
     protected constructor(client: LMStudioClient, model: LLM, modelKey?: string, implementation?: string) {
         super(implementation || `LMStudio-${modelKey || model?.modelKey}`);
@@ -77,6 +78,15 @@ export class LMStudioGlossary extends GlossaryGenerator {
         this.client = client;
     }
 
+    public setOptions(options: GlossaryOptions = {}) {
+        super.setOptions(options);
+        this.defaults = this.defaults || { temperature: this.temperature, contextLength: this.contextLength, prompt: this.deffaultPrompt };
+        this.temperature = options.temperature ?? this.defaults.temperature;
+        this.contextLength = options.context ?? this.defaults.contextLength;
+        this.deffaultPrompt = options.prompt ?? this.defaults.prompt;
+        this.promptContext = this.contextLength - this.structuredTokens;
+    }
+
     protected async prompt(text: string): Promise<Partial<GlossaryReport> | null> {
         if (config.DEBUG) { console.debug(`[LMStudioGlossary.prompt] -> input: ${text.slice(this.deffaultPrompt.length).replace(/\s+/g, ' ').slice(0, 500)}`); }
 
@@ -101,6 +111,7 @@ export class LMStudioGlossary extends GlossaryGenerator {
         let result: StructuredPredictionResult | null = null;
 
         for (let attempt = 0; attempt <= this.retryCount; attempt++) {
+            if (this.signal?.aborted) { break; }
             let content = '';
             let totalTokenOutput: number = 0;
             predictCallbacks.push((fragment: LLMPredictionFragment) => {
@@ -123,8 +134,11 @@ export class LMStudioGlossary extends GlossaryGenerator {
             await this.reloadModel((p) => this.setProgress(p * 10, ProgressLevel.LOADING_MODEL), seed);
             let response = this.model.respond(text, opts);
             let timeout = setTimeout(async () => await response.cancel(), Math.min(this.maxTimeout, LMStudioGlossary.MAX_32BIT_INT));
+            let abort = async () => await response.cancel();
+            this.signal?.addEventListener('abort', abort, { once: true });
 
             try { result = await response as StructuredPredictionResult; } catch (e: any) { console.error("[LMStudioGlossary.createGlossary] -> Error during LM response:", e); }
+            this.signal?.removeEventListener('abort', abort);
             clearTimeout(timeout);
             predictCallbacks.pop();
             if (result?.parsed) { break; } else if (content) { this.addError(content); }
@@ -150,12 +164,14 @@ export class LMStudioGlossary extends GlossaryGenerator {
         if (config.DEBUG) { console.debug(`[${LMStudioGlossary.CLASS_NAME}.createGlossary] -> chunkSize: ${chunkSize}, prompts.length: ${prompts.length}`); }
 
         for (var i = 0; i < prompts.length; i++) {
+            if (this.signal?.aborted) { break; }
             let result: Partial<GlossaryReport> | null = null;
             let isTooSmall = prompts[i].length - prompts.length < this.minProcessSize;
             this.setProgressInfo(i, prompts.length);
             if (!isTooSmall) { result = await this.prompt(prompts[i]); }
             this.setProgress(10 + ((i + 1) / prompts.length) * 90, ProgressLevel.CHUNKING);
             if (!isTooSmall && !result) { this.error_count++; }
+            this.emitEntries(result, i, prompts.length);
             allReports.push(result ? result : this.emptyReport())
         }
 
@@ -169,7 +185,7 @@ export class LMStudioGlossary extends GlossaryGenerator {
     private async reloadModel(progress?: (percentage: number) => void, seed?: number): Promise<void> {
         await this.model.unload();
         seed = (seed !== undefined) ? seed : this.seed;
-        let instance = await LMStudioGlossary.getInstance(progress, this.modelKey, seed);
+        let instance = await LMStudioGlossary.getInstance(progress, this.modelKey, seed, this.contextLength);
         this.model = instance.model;
         if (progress) { progress(1); }
     }
@@ -178,10 +194,10 @@ export class LMStudioGlossary extends GlossaryGenerator {
         await this.model.unload();
     }
 
-    public static async getInstance(progress?: (percentage: number) => void, modelKey?: string, seed?: number): Promise<LMStudioGlossary> {
+    public static async getInstance(progress?: (percentage: number) => void, modelKey?: string, seed?: number, contextLength?: number): Promise<LMStudioGlossary> {
         modelKey = modelKey || config.LMSTUDIO.DEFAULT_MODEL || LMStudioGlossary.DEFAULT_MODEL;
         seed = (seed !== undefined) ? seed : config.LMSTUDIO.SEED || LMStudioGlossary.SEED;
-        let contextLength = config.LMSTUDIO.DEFAULT_CONTEXT || LMStudioGlossary.DEFAULT_CONTEXT;
+        contextLength = contextLength || config.LMSTUDIO.DEFAULT_CONTEXT || LMStudioGlossary.DEFAULT_CONTEXT;
         let timeout = config.LMSTUDIO.TIMEOUT || LMStudioGlossary.TIMEOUT;
 
         let model: LLM | null = null;
@@ -46,6 +46,7 @@ export class LMStudioGlossaryV2 extends GlossaryGenerator {
             this.emit('progress', (i+1)/sentences.length*100);
             if (config.DEBUG && (result as any).parsed) { console.dir(result.parsed, { depth: null }); }
             if ((result as any).parsed) { allEntrires.push((result as any).parsed); }
+            this.emitEntries({ glossary: (result as any).parsed }, i, sentences.length);
         }
 
         const uniqueGlossary = Array.from(new Map(allEntrires.flat().map((item) => [item.term.toLowerCase(), item])).values());
@@ -52,11 +52,11 @@ export class OpenAIGlossary extends GlossaryGenerator {
             const completion = await this.ai.chat.completions.create({
                 model: OpenAIGlossary.DEFAULT_MODEL,
                 messages: [
-                    { role: "system", content: OpenAIGlossary.SYSTEM_PROMPT },
+                    { role: "system", content: this.glossaryOptions.prompt ?? OpenAIGlossary.SYSTEM_PROMPT },
                     { role: "user", content: `Text to analyze:\n${text}` }
                 ],
                 response_format: zodResponseFormat(GlossaryReportSchema, "glossary_report"),
-                temperature: OpenAIGlossary.DEFAULT_TEMPERATURE,
+                temperature: this.glossaryOptions.temperature ?? OpenAIGlossary.DEFAULT_TEMPERATURE,
                 seed: 42,
             });
 
@@ -88,12 +88,13 @@ export class OpenAIGlossary extends GlossaryGenerator {
         const allReports: Partial<GlossaryReport>[] = [];
 
         console.debug(`[OpenAIGlossary.createGlossary] -> input size: ${text.length}`);
-        const { chunkSize, prompts } = await Tokenizer.preparePrompts(text, OpenAIGlossary.SYSTEM_PROMPT, OpenAIGlossary.DEFAULT_MAX_TOKENS,  async (t) => await this.countTokens(t), 0);
+        const { chunkSize, prompts } = await Tokenizer.preparePrompts(text, this.glossaryOptions.prompt ?? OpenAIGlossary.SYSTEM_PROMPT, this.glossaryOptions.context ?? OpenAIGlossary.DEFAULT_MAX_TOKENS,  async (t) => await this.countTokens(t), 0);
         console.debug(`[OpenAIGlossary.createGlossary] -> chunks: ${prompts.length}`);
 
         for (var i = 0; i < prompts.length; i++) {
             const result = await this.prompt(prompts[i]);
             this.emit('progress', (i + 1) / prompts.length * 100);
+            this.emitEntries(result, i, prompts.length);
             if (result) { allReports.push(result); }
         }
 
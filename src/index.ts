@@ -14,6 +14,7 @@ import { WhisperStream } from './whisper/whisper.js';
 import { ContentWorker } from './worker.js';
 import { UploadRoute } from './routes/upload.js';
 import { GlossaryRoute } from './routes/glossary.js';
+import { GlossaryRegenerateRoute } from './routes/glossary/regenerate.js';
 import { JobTracker, QueueTracker } from './tracker.js';
 import { QueueStatusRoute } from './routes/queue/status.js';
 import { CommandHandler } from './commands.js';
@@ -21,9 +22,18 @@ import { GlossaryFactory } from './glossary/factory.js';
 import { GlossaryActivity } from './routes/activity.js';
 import { SupportedRoute } from './routes/supported.js';
 import { JobsStatusRoute } from './routes/jobs/status.js';
+import { JobRoute } from './routes/jobs/job.js';
+import { JobResultRoute } from './routes/jobs/result.js';
+import { JobCancelRoute } from './routes/jobs/cancel.js';
+import { JobHistoryRoute } from './routes/jobs/history.js';
+import { DefaultRoute } from './routes/default.js';
+import { ResumableUploadRoute } from './routes/upload/resumable.js';
+import { JobPipeline } from './pipeline.js';
+import { MAX_FILESIZE } from './supported.js';
+import { ImageProcessor } from './processors/image_processor.js';
 
 const app = express();
-app.use(busboy());
+app.use(busboy({ limits: { files: config.MAX_UPLOAD_FILES, fileSize: MAX_FILESIZE } }));
 app.use(bodyParser.json());
 app.use(bodyParser.urlencoded({ extended: true }));
 app.use(express.static('website', { index: false }));
@@ -64,8 +74,10 @@ console.debug = (...args: any[]) => {
         CommandHandler.onCommand(message.input || '', message.input?.split(/\s+/) || []);
     }) as NodeJS.MessageListener);
 
-    try { await fsp.rm(config.UPLAOD_DIRECTORY, { recursive: true }); } catch (e: any) { if (e?.code != 'ENOENT') { console.log(`[RMDIR] -> ${e?.message}`); } }
     try { await fsp.mkdir(config.UPLAOD_DIRECTORY, { recursive: true }); } catch (e: any) { throw e; }
+    await ImageProcessor.sweepCache();
+    setInterval(() => ImageProcessor.sweepCache(), config.OCR_CACHE.CLEANUP_INTERVAL).unref();
+    await JobPipeline.resume();
 
     let httpsOptions = {
         cert: await new Promise((resolve) => fs.readFile('./../../-(CERTIFICATE)-/certificate.crt', (err, data) => resolve(data))) as Buffer,
@@ -86,14 +98,33 @@ console.debug = (...args: any[]) => {
     app.get('/', (_: any, res: any) => res.sendFile(`${config.SOURCE_DIRECTORY}/website/index.html`));
     app.route('/queue/status/*').get((req: any, res: any, done: any) => new QueueStatusRoute(req, res, done).get());
     app.route('/jobs/status/*').get((req: any, res: any, done: any) => new JobsStatusRoute(req, res, done).get());
+    app.route('/jobs/history*').get((req: any, res: any, done: any) => new JobHistoryRoute(req, res, done).get());
+    app.route('/jobs/:id/cancel').post((req: any, res: any, done: any) => new JobCancelRoute(req, res, done).post());
+    app.route('/jobs/:id/result').get((req: any, res: any, done: any) => new JobResultRoute(req, res, done).get());
+    app.route('/jobs/:id').get((req: any, res: any, done: any) => new JobRoute(req, res, done).get());
     app.route('/supported/').post((req: any, res: any, done: any) => new SupportedRoute(req, res, done).post());
+    app.route('/upload/resumable/*')
+        .post((req: any, res: any, done: any) => new ResumableUploadRoute(req, res, done).post())
+        .patch((req: any, res: any, done: any) => new ResumableUploadRoute(req, res, done).patch())
+        .get((req: any, res: any, done: any) => new ResumableUploadRoute(req, res, done).get());
     app.route('/upload/*').post((req: any, res: any, done: any) => new UploadRoute(req, res, done).post());
+    app.route('/glossary/regenerate').post((req: any, res: any, done: any) => new GlossaryRegenerateRoute(req, res, done).post());
     app.route('/glossary').post((req: any, res: any, done: any) => new GlossaryRoute(req, res, done).post());
     app.route('/activity').post((req: any, res: any, done: any) => new GlossaryActivity(req, res, done).post());
 
     io.sockets.on('connection', (socket: any) => {
-        socket.socketId = crypto.randomUUID();
-        socket.emit('unique-id', socket.socketId);
-        socket.emit('tracker-update', JobTracker.getJobs());
+        const { session, sessionToken, token } = socket.handshake.auth || {};
+        const ip_address = DefaultRoute.getIpId(socket.request).ip;
+        const admin = DefaultRoute.isAdmin(token);
+        socket.socketId = DefaultRoute.verifySession(session, sessionToken) ? session : crypto.randomUUID();
+        socket.emit('unique-id', socket.socketId, DefaultRoute.signSession(socket.socketId));
+        JobTracker.addSession(socket, socket.socketId, ip_address, admin);
+        socket.emit('worker-update', JobTracker.getWorkers());
+
+        socket.on('cancel-job', (jobId: string) => {
+            const job = JobTracker.getJob(jobId);
+            if (!job || (!admin && !JobTracker.isOwner(job, socket.socketId, ip_address))) { return; }
+            JobPipeline.cancel(jobId);
+        });
     });
 })();
\ No newline at end of file
@@ -0,0 +1,271 @@
+import * as fsp from 'fs/promises';
+import path from 'path';
+import config from './config.js';
+import { ContentWorker, ContentWorkerErrorCode, CWT_EXTRACT_GLOSSARY, CWT_TEXT_GLOSSARY, WMT_EXTRACT_PROGRESS, WMT_GLOSSARY_ENTRIES, WMT_GLOSSARY_PROGRESS, WMT_WORKER_FREE, WMT_WORKER_TAKEN, WMT_WORKLOAD, WorkerPoolType } from './worker.js';
+import { DatabaseManager } from './database/manager.js';
+import { GlossaryGenerator, GlossaryOptions, GlossaryPartial, GlossaryReport } from './glossary/glossary.js';
+import { GlossaryFactory, GlossaryGeneratorType } from './glossary/factory.js';
+import { Tokenizer } from './glossary/tokenizer.js';
+import { JobStatus, JobTracker, QueueTracker, TrackedJob } from './tracker.js';
+import { JobEstimate, StageWorkload } from './throughput.js';
+import { findByExtension } from './supported.js';
+import { OcrStats, TextSegment } from './processors/file_processor.js';
+
+export type UploadedFile = {
+    jobId: string;
+    filename: string;
+    mimeType: string;
+    filePath: string;
+    hash: string;
+    generator?: GlossaryGeneratorType;
+    options?: GlossaryOptions;
+};
+
+export type RegenerateRequest = {
+    jobId: string;
+    hash: string;
+    filename: string;
+    generator: GlossaryGeneratorType;
+    options: GlossaryOptions;
+};
+
+export type UploadResult = {
+    code: number;
+    message: string;
+    filename: string;
+    jobId?: string;
+    hash?: string;
+    glossary?: string;
+    error?: string;
+    data?: any;
+};
+
+class JobPipelineController {
+    private pending: Map<string, Promise<UploadResult>> = new Map();
+    private positions: Map<string, string> = new Map();
+    private workers: Map<string, ContentWorker> = new Map();
+    private cancelled: Set<string> = new Set();
+    private inflight: Map<string, string> = new Map();
+    private detach: Map<string, () => void> = new Map();
+    private clients: Map<string, string> = new Map();
+
+    public submit(file: UploadedFile, ip_address: string, socketId?: string, priority: number = config.QUEUE.DEFAULT_PRIORITY): string {
+        return this.start(file.jobId, ip_address, this.run(file, ip_address, socketId, priority, true));
+    }
+
+    public regenerate(request: RegenerateRequest, ip_address: string): string {
+        return this.start(request.jobId, ip_address, this.runRegenerate(request, ip_address, true));
+    }
+
+    public countPending(ip_address: string): number {
+        return Array.from(this.clients.values()).filter(client => client === ip_address).length;
+    }
+
+    public isFull(ip_address: string): boolean {
+        return (config.QUEUE.MAX_PER_CLIENT > 0) && (this.countPending(ip_address) >= config.QUEUE.MAX_PER_CLIENT);
+    }
+
+    public async resume(): Promise<void> {
+        const statuses = [JobStatus.QUEUED, JobStatus.EXTRACTING, JobStatus.PROCESSING];
+        const jobs = await DatabaseManager.getJobsByStatus(statuses);
+        const referenced = new Set<string>();
+
+        for (const job of jobs) {
+            if (!job.file_path) { JobTracker.restoreJob(job.id, job.filename, JobStatus.QUEUED, job.ip_address, job.owner); }
+            if (!job.file_path) { this.start(job.id, job.ip_address, this.runRegenerate({ jobId: job.id, hash: job.hash, filename: job.filename, generator: job.generator, options: JSON.parse(job.options || '{}') }, job.ip_address, false)); continue; }
+            const exists = await fsp.stat(job.file_path).then(() => true).catch(() => false);
+            if (!exists) { await DatabaseManager.finishJob(job.id, JobStatus.FAILED, config.ERROR_CODES['500.0'].message, 'Uploaded file is missing.'); continue; }
+
+            referenced.add(path.resolve(job.file_path));
+            JobTracker.restoreJob(job.id, job.filename, JobStatus.QUEUED, job.ip_address, job.owner);
+            const file = { jobId: job.id, filename: job.filename, mimeType: job.content_type, filePath: job.file_path, hash: job.hash, generator: job.generator, options: JSON.parse(job.options || '{}') };
+            this.start(job.id, job.ip_address, this.run(file, job.ip_address, undefined, job.priority, false));
+        }
+
+        for (const filename of await fsp.readdir(config.UPLAOD_DIRECTORY)) {
+            const filePath = path.resolve(config.UPLAOD_DIRECTORY, filename);
+            if (!referenced.has(filePath)) { await fsp.rm(filePath, { recursive: true, force: true }); }
+        }
+
+        console.log(`[JOB PIPELINE] -> resumed ${referenced.size}/${jobs.length} unfinished jobs`);
+    }
+
+    private start(jobId: string, ip_address: string, promise: Promise<UploadResult>): string {
+        this.pending.set(jobId, promise);
+        this.clients.set(jobId, ip_address);
+        promise.finally(() => { this.pending.delete(jobId); this.clients.delete(jobId); });
+        return jobId;
+    }
+
+    public cancel(jobId: string): boolean {
+        if (!this.pending.has(jobId) || this.cancelled.has(jobId)) { return false; }
+        this.cancelled.add(jobId);
+        console.log(`[JOB PIPELINE] -> cancel jobId: ${jobId}, processing: ${this.workers.has(jobId)}`);
+
+        const position = this.positions.get(jobId);
+        if (position && !QueueTracker.active(position)) { QueueTracker.dequeue(position); }
+        this.workers.get(jobId)?.cancel();
+        this.detach.get(jobId)?.();
+        return true;
+    }
+
+    public async waitResult(jobId: string): Promise<UploadResult | null> {
+        return await this.pending.get(jobId) || null;
+    }
+
+    private async run(file: UploadedFile, ip_address: string, socketId: string | undefined, priority: number, persist: boolean): Promise<UploadResult> {
+        const generator = file.generator || GlossaryFactory.getDefaultGenerator();
+        if (persist) { await DatabaseManager.createJob(file.jobId, JobStatus.QUEUED, file.filename, file.mimeType, file.filePath, file.hash, generator, file.options || {}, priority, ip_address, JobTracker.getJob(file.jobId)?.owner); }
+        if (persist) { await DatabaseManager.addDailyUsage(ip_address, { uploads: 1, bytes: (await fsp.stat(file.filePath)).size }); }
+
+        const key = this.getRunKey(file.hash, generator, file.options);
+        let leaderId: string | undefined;
+        while ((leaderId = this.inflight.get(key)) && !this.cancelled.has(file.jobId)) {
+            const shared = await this.follow(file, leaderId);
+            if (shared && (shared.code !== 499)) { return await this.finish(file.jobId, { ...shared, filename: file.filename }, file.filePath); }
+        }
+
+        if (this.cancelled.has(file.jobId)) { return await this.finish(file.jobId, { ...config.ERROR_CODES['499.0'], filename: file.filename }, file.filePath); }
+        this.inflight.set(key, file.jobId);
+        const result = await this.execute(file.jobId, file.filename, ip_address, socketId, priority, !persist, () => this.processFile(file, ip_address));
+        this.inflight.delete(key);
+        return await this.finish(file.jobId, result, file.filePath);
+    }
+
+    private getRunKey(hash: string, generator: GlossaryGeneratorType, options: GlossaryOptions = {}): string {
+        const entries = Object.entries(options).filter(([_, value]) => value !== undefined).sort(([a], [b]) => a.localeCompare(b));
+        return `${hash}:${generator}:${JSON.stringify(entries)}`;
+    }
+
+    private async runRegenerate(request: RegenerateRequest, ip_address: string, persist: boolean): Promise<UploadResult> {
+        const priority = config.QUEUE.REPROCESS_PRIORITY;
+        if (persist) { await DatabaseManager.createJob(request.jobId, JobStatus.QUEUED, request.filename, 'text/plain', '', request.hash, request.generator, request.options, priority, ip_address, JobTracker.getJob(request.jobId)?.owner); }
+        const result = await this.execute(request.jobId, request.filename, ip_address, undefined, priority, !persist, () => this.processText(request, ip_address));
+        return await this.finish(request.jobId, result);
+    }
+
+    private async execute(jobId: string, filename: string, ip_address: string, socketId: string | undefined, priority: number, force: boolean, work: () => Promise<UploadResult>): Promise<UploadResult> {
+        const position = QueueTracker.enqueue({ socketId, client: ip_address, priority, force });
+        if (!position) { return { ...config.ERROR_CODES['429.0'], filename }; }
+        this.positions.set(jobId, position);
+        if (config.DEBUG) { console.log(`[DEBUG] JOB PIPELINE 1 -> jobId: ${jobId}, position: ${position}, filename: ${filename}`); }
+        await QueueTracker.wait(position);
+
+        try { var result = this.cancelled.has(jobId) ? { ...config.ERROR_CODES['499.0'], filename } : await work(); }
+        catch (error: any) { console.error(error); result = { ...config.ERROR_CODES['500.0'], filename, error: error?.message }; }
+        if (this.cancelled.has(jobId)) { result = { ...config.ERROR_CODES['499.0'], filename }; }
+
+        QueueTracker.dequeue(position);
+        this.positions.delete(jobId);
+        return result;
+    }
+
+    private async follow(file: UploadedFile, leaderId: string): Promise<UploadResult | null> {
+        if (config.DEBUG) { console.log(`[DEBUG] JOB PIPELINE 3 -> jobId: ${file.jobId}, following: ${leaderId}, hash: ${file.hash}`); }
+        const leader = JobTracker.getJob(leaderId);
+        if (leader) { JobTracker.updateJob(file.jobId, leader.status, leader.progress); }
+
+        const mirror = (job: TrackedJob) => { if (job.id === leaderId) { JobTracker.updateJob(file.jobId, job.status, job.progress); } };
+        const detached = new Promise<null>(resolve => this.detach.set(file.jobId, () => resolve(null)));
+        JobTracker.on('update', mirror);
+        const result = await Promise.race([this.pending.get(leaderId) || null, detached]);
+        JobTracker.off('update', mirror);
+        this.detach.delete(file.jobId);
+        return result;
+    }
+
+    private async finish(jobId: string, result: UploadResult, filePath?: string): Promise<UploadResult> {
+        this.cancelled.delete(jobId);
+        if (filePath) { fsp.unlink(filePath).catch(() => {}); }
+        if (config.DEBUG) { console.log(`[DEBUG] JOB PIPELINE 2 -> jobId: ${jobId}, code: ${result.code}, filename: ${result.filename}`); }
+
+        const status = (result.code === 200) ? JobStatus.COMPLETED : (result.code === 499) ? JobStatus.CANCELLED : JobStatus.FAILED;
+        await DatabaseManager.finishJob(jobId, status, (status !== JobStatus.COMPLETED) ? result.message : undefined, result.error, result.glossary);
+        JobTracker.finishJob(jobId, status, result.hash, (status !== JobStatus.COMPLETED) ? result.message : undefined, result.error, result.glossary);
+        return { ...result, jobId };
+    }
+
+    private async processFile(file: UploadedFile, ip_address: string): Promise<UploadResult> {
+        const generator = file.generator || GlossaryFactory.getDefaultGenerator();
+        const cached = GlossaryFactory.isDefaultRun(generator, file.options);
+        const existingFile = cached && await DatabaseManager.getFile(file.hash);
+        if (existingFile) { return { ...config.ERROR_CODES['200.0'], filename: file.filename, hash: file.hash, data: existingFile }; }
+
+        const fileSize = (await fsp.stat(file.filePath)).size;
+        const estimate = new JobEstimate(file.jobId);
+        await estimate.plan('extraction', findByExtension(path.extname(file.filePath))?.processor?.name || 'unknown', { byte: fileSize });
+        await estimate.plan('generation', generator, { byte: fileSize });
+
+        JobTracker.updateJob(file.jobId, JobStatus.EXTRACTING, 0);
+        DatabaseManager.setJobStatus(file.jobId, JobStatus.EXTRACTING);
+        const worker = new ContentWorker(file.filePath, CWT_TEXT_GLOSSARY, file.generator, file.options);
+        this.workers.set(file.jobId, worker);
+        if (this.cancelled.has(file.jobId)) { worker.cancel(); }
+        this.trackEstimate(worker, estimate);
+        worker.on(WMT_WORKER_FREE, ({ pool }: { pool: WorkerPoolType }) => { if (pool === 'extraction') { JobTracker.updateJob(file.jobId, JobStatus.EXTRACTED, 100); } });
+        worker.on(WMT_WORKER_TAKEN, ({ pool }: { pool: WorkerPoolType }) => { if (pool === 'generation') { JobTracker.updateJob(file.jobId, JobStatus.PROCESSING, 0); } });
+        worker.on(WMT_WORKER_TAKEN, ({ pool }: { pool: WorkerPoolType }) => { if (pool === 'generation') { DatabaseManager.setJobStatus(file.jobId, JobStatus.PROCESSING); } });
+        worker.on(WMT_EXTRACT_PROGRESS, (progress: number) => JobTracker.updateJob(file.jobId, JobStatus.EXTRACTING, progress));
+        worker.on(WMT_GLOSSARY_PROGRESS, (progress: number) => JobTracker.updateJob(file.jobId, JobStatus.PROCESSING, progress));
+        worker.on(WMT_GLOSSARY_ENTRIES, (partial: GlossaryPartial) => JobTracker.sendPartial(file.jobId, partial));
+        let quotaExceeded = false;
+        worker.on(WMT_WORKLOAD, async ({ stage, workload }: StageWorkload) => {
+            if ((stage !== 'generation') || !(await DatabaseManager.checkDailyQuota(ip_address, { tokens: workload.token || 0 }))) { return; }
+            quotaExceeded = true;
+            worker.cancel();
+        });
+        const { text, segments, ocr, glossary, error, code } = await worker.waitResult() as { text: string, segments?: TextSegment[], ocr?: OcrStats | null, glossary: GlossaryReport, error?: Error, code?: ContentWorkerErrorCode };
+        this.workers.delete(file.jobId);
+        if (quotaExceeded) { return { ...config.ERROR_CODES['429.2'], filename: file.filename }; }
+        if (error) { return { ...config.ERROR_CODES[code || '500.0'], filename: file.filename, error: error.message }; }
+
+        await estimate.save();
+        GlossaryGenerator.attachSources(glossary, segments || []);
+        if (ocr) { glossary.debug_info = { ...glossary.debug_info, ocr: { ...ocr, garbage_ratio: ocr.words ? ocr.dropped / ocr.words : 0, mean_confidence: ocr.words ? ocr.confidence_total / ocr.words : 0 } }; }
+        await DatabaseManager.addDailyUsage(ip_address, { tokens: await Tokenizer.countTokens(text) });
+
+        if (!cached) {
+            await DatabaseManager.createGlossaryRun(file.hash, generator, file.options || {}, glossary, ip_address);
+            return { ...config.ERROR_CODES['200.0'], filename: file.filename, hash: file.hash, glossary: glossary.uid, data: { uid: glossary.uid, generator } };
+        }
+
+        const newFile = await DatabaseManager.createFile(file.hash, file.filename, file.mimeType, fileSize, text, segments || [], glossary, ip_address);
+        return { ...config.ERROR_CODES['200.0'], filename: file.filename, hash: file.hash, data: newFile };
+    }
+
+    private trackEstimate(worker: ContentWorker, estimate: JobEstimate): void {
+        worker.on(WMT_WORKER_TAKEN, ({ pool }: { pool: WorkerPoolType }) => estimate.start(pool));
+        worker.on(WMT_WORKER_FREE, ({ pool }: { pool: WorkerPoolType }) => estimate.finish(pool));
+        worker.on(WMT_WORKLOAD, ({ stage, type, workload }: StageWorkload) => estimate.plan(stage, type, workload));
+        worker.on(WMT_EXTRACT_PROGRESS, (progress: number) => estimate.progress('extraction', progress));
+        worker.on(WMT_GLOSSARY_PROGRESS, (progress: number) => estimate.progress('generation', progress));
+    }
+
+    private async processText(request: RegenerateRequest, ip_address: string): Promise<UploadResult> {
+        const text = await DatabaseManager.getFileText(request.hash);
+        if (typeof text !== 'string') { return { ...config.ERROR_CODES['404.0'], filename: request.filename }; }
+
+        const estimate = new JobEstimate(request.jobId);
+        await estimate.plan('generation', request.generator, { token: await Tokenizer.countTokens(text) });
+
+        JobTracker.updateJob(request.jobId, JobStatus.PROCESSING, 0);
+        DatabaseManager.setJobStatus(request.jobId, JobStatus.PROCESSING);
+        const worker = new ContentWorker(text, CWT_EXTRACT_GLOSSARY, request.generator, request.options);
+        this.workers.set(request.jobId, worker);
+        if (this.cancelled.has(request.jobId)) { worker.cancel(); }
+        this.trackEstimate(worker, estimate);
+        worker.on(WMT_GLOSSARY_PROGRESS, (progress: number) => JobTracker.updateJob(request.jobId, JobStatus.PROCESSING, progress));
+        worker.on(WMT_GLOSSARY_ENTRIES, (partial: GlossaryPartial) => JobTracker.sendPartial(request.jobId, partial));
+        const { glossary, error, code } = await worker.waitResult() as { glossary: GlossaryReport, error?: Error, code?: ContentWorkerErrorCode };
+        this.workers.delete(request.jobId);
+        if (error || !glossary) { return { ...config.ERROR_CODES[code || '500.0'], filename: request.filename, error: error?.message }; }
+        await estimate.save();
+        GlossaryGenerator.attachSources(glossary, await DatabaseManager.getFileSegments(request.hash));
+
+        await DatabaseManager.createGlossaryRun(request.hash, request.generator, request.options, glossary, ip_address);
+        await DatabaseManager.addDailyUsage(ip_address, { tokens: await Tokenizer.countTokens(text) });
+        return { ...config.ERROR_CODES['200.0'], filename: request.filename, hash: request.hash, glossary: glossary.uid, data: { uid: glossary.uid, generator: request.generator } };
+    }
+}
+
+export const JobPipeline = new JobPipelineController();
@@ -22,11 +22,11 @@ export class StreamPiper extends EventEmitter {
     private isInitialized = false;
     private isHeaderFinalized = false;
 
-    constructor(stream: Readable, fileSize: number) {
+    constructor(stream: Readable, fileSize: number, hash?: Hash) {
         super();
         this.sourceStream = stream;
         this.fileSize = fileSize > 0 ? fileSize : 0;
-        this.hash = createHash('sha256');
+        this.hash = hash || createHash('sha256');
         this.outputStream = new PassThrough({ highWaterMark: 1024 * 512 });
 
         this.headerPromise = new Promise((resolve, reject) => {
@@ -76,7 +76,7 @@ export class StreamPiper extends EventEmitter {
         this.sourceStream.on('end', () => {
             if (!this.isHeaderFinalized) { this.isHeaderFinalized = true; }
             if (this.header.length < StreamPiper.HEADER_SIZE) { this._resolveHeader(this.header); }
-            this._resolveHash(this.dataHash = this.hash.digest('hex'));
+            this._resolveHash(this.dataHash = this.hash.copy().digest('hex'));
             console.debug(`[DEBUG] StreamPiper#_initialize -> sourceStream.on('end')`);
             this.outputStream.end();
         });
@@ -126,10 +126,14 @@ export class StreamPiper extends EventEmitter {
         return this.hashPromise;
     }
 
-    public async writeFile(filePath: string, signal?: AbortSignal): Promise<boolean> {
+    public getHashState(): Hash {
+        return this.hash;
+    }
+
+    public async writeFile(filePath: string, signal?: AbortSignal, flags: string = 'w'): Promise<boolean> {
         try {
             const readableStream = this.getStream();
-            const writeStream = createWriteStream(filePath);
+            const writeStream = createWriteStream(filePath, { flags });
             await pipeline(readableStream, writeStream, { signal });
             if (this.destroyed) { this.sourceStream.destroy(); }
             if (this.destroyed) { this.outputStream.destroy(); }
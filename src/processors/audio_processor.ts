@@ -8,6 +8,10 @@ export class AudioProcessor extends FileProcessor {
         const whisper = new WhisperStream(config.WHISER_OPTIONS, config.VAD_ADAPTER_OPTIONS);
         whisper.on('progress', (progress) => this.setProgress(progress));
         whisper.on('error', (error) => { throw error });
-        return (await whisper.transcribe(source as string | Buffer)).map(seg => seg.text).join(' ');
+        this.signal?.addEventListener('abort', () => whisper.stop(), { once: true });
+        const segments = await whisper.transcribe(source as string | Buffer);
+        if (whisper.getDuration() > 0) { this.workload.second = whisper.getDuration(); }
+        this.segments = segments.map(seg => ({ text: seg.text, location: { start: seg.start, end: seg.end } }));
+        return segments.map(seg => seg.text).join(' ');
     }
 }
\ No newline at end of file
@@ -3,15 +3,44 @@ import * as fsp from 'fs/promises';
 import * as crypto from 'crypto';
 import { findByHeader } from '../supported.js';
 import config from '../config.js';
+import { OcrLanguages } from './image_processor.js';
+
+export type SourceLocation = {
+    page?: number;
+    slide?: number;
+    paragraph?: number;
+    start?: number;
+    end?: number;
+};
+
+export type TextSegment = {
+    text: string;
+    location?: SourceLocation;
+};
+
+export type OcrStats = {
+    images: number;
+    excluded: number;
+    words: number;
+    dropped: number;
+    confidence_total: number;
+};
+
+type CachedText = { content: string, segments: TextSegment[] | null, ocr: OcrStats | null };
 
 export class FileProcessor {
     private static CACHE_TTL_MS = 24 * 60 * 60 * 1000;
-    private static cache = new Map<string, string>();
+    private static cache = new Map<string, CachedText>();
     protected progress: number = 0;
+    protected segments: TextSegment[] | null = null;
+    protected ocrStats: OcrStats | null = null;
+    protected workload: { [unit: string]: number } = {};
     protected cacheKey?: string = null as unknown as string;
     protected filePath?: string;
     protected buffer?: Buffer;
     protected callback: (progress: number) => void = () => {};
+    protected signal?: AbortSignal;
+    protected languages?: OcrLanguages;
 
     static { setInterval(() => this.cache.clear(), FileProcessor.CACHE_TTL_MS); }
 
@@ -32,6 +61,14 @@ export class FileProcessor {
         this.callback = callback;
     }
 
+    setSignal(signal?: AbortSignal): void {
+        this.signal = signal;
+    }
+
+    setLanguages(languages?: OcrLanguages): void {
+        this.languages = languages;
+    }
+
     async setProgress(progress: number): Promise<void> {
         this.progress = Math.min(Math.max(progress, 0), 100);
         if (this.callback) { await this.callback(this.progress); }
@@ -41,6 +78,39 @@ export class FileProcessor {
         return this.progress;
     }
 
+    getSegments(content?: string | null): TextSegment[] {
+        return this.segments || (content ? [{ text: content }] : []);
+    }
+
+    protected groupSegments(elements: string[], indices: number[], key: 'page' | 'slide' | 'paragraph'): TextSegment[] {
+        const segments: TextSegment[] = [];
+
+        for (let i = 0; i < elements.length; i++) {
+            const last = segments[segments.length - 1];
+            if (last && (last.location?.[key] === indices[i])) { last.text += `\n${elements[i]}`; continue; }
+            segments.push({ text: String(elements[i]), location: { [key]: indices[i] } });
+        }
+
+        return segments;
+    }
+
+    static addStats(a: OcrStats | null, b: OcrStats | null): OcrStats | null {
+        if (!a || !b) { return (a || b) ? { ...(a || b)! } : null; }
+        return Object.fromEntries(Object.entries(a).map(([key, value]) => [key, value + b[key as keyof OcrStats]])) as OcrStats;
+    }
+
+    protected addOcrStats(stats: OcrStats | null): void {
+        this.ocrStats = FileProcessor.addStats(this.ocrStats, stats);
+    }
+
+    getOcrStats(): OcrStats | null {
+        return this.ocrStats ? { ...this.ocrStats } : null;
+    }
+
+    getWorkload(): { [unit: string]: number } {
+        return { ...this.workload };
+    }
+
     protected async extractImplementation(): Promise<string | null> {
         if (this.buffer) { return this.buffer.toString('utf-8'); }
 
@@ -66,8 +136,8 @@ export class FileProcessor {
         return this.cacheKey as string;
     }
 
-    private async checkCache(): Promise<{ key: string; cache: string | null }> {
-        const key = await this.getHash();
+    private async checkCache(): Promise<{ key: string; cache: CachedText | null }> {
+        const key = this.languages ? `${await this.getHash()}:${[this.languages].flat().join('+')}` : await this.getHash();
         const cache = FileProcessor.cache.get(key) || null;
         return { key, cache };
     }
@@ -75,11 +145,13 @@ export class FileProcessor {
     async extractText(): Promise<string | null> {
         await this.setProgress(0);
         const { key, cache } = await this.checkCache();
-        if (cache) { await this.setProgress(100); return cache; }
+        if (cache) { this.segments = cache.segments; this.ocrStats = cache.ocr; }
+        if (cache) { await this.setProgress(100); return cache.content; }
 
         try {
             const content = await this.extractImplementation();
-            if (content) { FileProcessor.cache.set(key, content); }
+            if (this.ocrStats?.images) { this.workload.image = this.ocrStats.images; }
+            if (content) { FileProcessor.cache.set(key, { content, segments: this.segments, ocr: this.ocrStats }); }
             await this.setProgress(100);
             return content;
         } catch (error: Error | any) {
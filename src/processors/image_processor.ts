@@ -1,63 +1,354 @@
+import sharp from 'sharp';
+import path from 'path';
+import * as fsp from 'fs/promises';
+import * as crypto from 'crypto';
 import { createWorker, ImageLike, OEM } from 'tesseract.js';
-import { FileProcessor } from './file_processor.js';
+import { FileProcessor, OcrStats } from './file_processor.js';
 import config from '../config.js';
+import { Utils } from '../utils.js';
+import { Condition, Semaphore } from '../queue.js';
+
+export type OcrLanguages = string[] | 'auto';
+export type OcrResult = { text: string, stats: OcrStats };
 
 export class ImageProcessor extends FileProcessor {
-    private static WORKER_COUNT = 1;
-    private static WORKER_INDEX = 0;
-    private static callbacks: Map<string, ImageProcessor> = new Map();
-    private static loading: boolean = false;
-    private static workers: Tesseract.Worker[] = [];
+    private static WORKER_COUNT = config.OCR_WORKER_COUNT;
+    private static callbacks: Map<string, (progress: number) => Promise<void>> = new Map();
+    private static loader: Semaphore = new Semaphore(1);
+    private static available: Condition = new Condition();
+    private static idle: Map<string, Tesseract.Worker[]> = new Map();
+    private static busy: Set<Tesseract.Worker> = new Set();
+    private static keys: Map<Tesseract.Worker, string> = new Map();
+    private static starting: number = 0;
+    private static detector: Tesseract.Worker | null = null;
     private jobId: string = crypto.randomUUID();
 
-    public static async processArray(images: (Buffer | string)[], progressCallback: (progress: number) => void | Promise<void>) {
-        const images_count = [images.filter(Buffer.isBuffer).length, 0];
+    public static async processArray(images: (Buffer | string)[], progressCallback: (progress: number) => void | Promise<void>, signal?: AbortSignal, languages?: OcrLanguages): Promise<OcrStats | null> {
+        var stats: OcrStats | null = null;
+        const hashes = images.map(image => Buffer.isBuffer(image) ? crypto.createHash('sha1').update(image).digest('hex') : null);
+        const indices = images.map((image, index) => (Buffer.isBuffer(image) && (hashes.indexOf(hashes[index]) === index)) ? index : -1).filter(index => index !== -1);
+        const progress = new Map<number, number>(indices.map(index => [index, 0]));
+        const report = async () => await progressCallback([...progress.values()].reduce((sum, value) => sum + value, 0) / Math.max(1, progress.size));
+        var next = 0;
         await progressCallback(0);
 
+        const run = async () => {
+            while (next < indices.length) {
+                const index = indices[next++];
+                signal?.throwIfAborted();
+                const imageProcessor = new ImageProcessor(images[index] as Buffer);
+                imageProcessor.setSignal(signal);
+                imageProcessor.setLanguages(languages);
+                imageProcessor.setCallback(async (value: number) => { progress.set(index, value); await report(); });
+                images[index] = await imageProcessor.extractText() as string;
+                stats = FileProcessor.addStats(stats, imageProcessor.getOcrStats());
+                progress.set(index, 100);
+                await report();
+            }
+        };
+
+        await Promise.all(Array.from({ length: Math.min(this.WORKER_COUNT, indices.length) }, run));
+
         for (let i = 0; i < images.length; i++) {
-            if (!Buffer.isBuffer(images[i])) { continue ; }
-            const imageProcessor = new ImageProcessor(images[i] as Buffer);
+            const first = hashes[i] ? hashes.indexOf(hashes[i]) : i;
+            if (first === i) { continue; }
+            images[i] = config.OCR_CACHE.DROP_REPEATED ? '' : images[first];
+            if (config.DEBUG) { console.log(`[ImageProcessor] Image ${i} repeats image ${first}, ${config.OCR_CACHE.DROP_REPEATED ? 'dropped' : 'reused'}.`); }
+        }
 
-            imageProcessor.setCallback(async (progress: number) => {
-                const progressFromPreviousImages = (images_count[1] / images_count[0]) * 100;
-                const progressSliceForThisImage = (1 / images_count[0]) * 100;
-                const progressWithinSlice = (progress / 100) * progressSliceForThisImage;
-                const totalProgress = progressFromPreviousImages + progressWithinSlice;
-                await progressCallback(totalProgress);
-            });
+        return stats;
+    }
 
-            images[i] = await imageProcessor.extractText() as string;
-            await progressCallback((++images_count[1] / images_count[0]) * 100);
+    private static getCacheKey(image: Buffer, languages?: OcrLanguages): string {
+        const settings = JSON.stringify({ languages: languages || config.OCR_LANGUAGES.DEFAULT, preprocess: config.OCR_PREPROCESS, filter: config.OCR_FILTER });
+        return crypto.createHash('sha256').update(image).update(settings).digest('hex');
+    }
+
+    private static async readCache(key: string): Promise<OcrResult | null> {
+        if (!config.OCR_CACHE.ENABLED) { return null; }
+        const filePath = path.resolve(config.OCR_CACHE.DIRECTORY, `${key}.json`);
+
+        try {
+            const stats = await fsp.stat(filePath);
+            if (Date.now() - stats.mtimeMs > config.OCR_CACHE.EXPIRATION) { await fsp.unlink(filePath).catch(() => {}); return null; }
+            const result = JSON.parse(await fsp.readFile(filePath, 'utf-8'));
+            await fsp.utimes(filePath, new Date(), new Date()).catch(() => {});
+            return result;
+        } catch (e) {
+            return null;
         }
     }
 
-    private static async createWorker(): Promise<Tesseract.Worker> {
-        const worker = await createWorker(['eng', 'lav'], OEM.DEFAULT, { errorHandler: () => {}, logger: async (m) => {
+    public static async sweepCache(): Promise<void> {
+        const { DIRECTORY, EXPIRATION, MAX_SIZE } = config.OCR_CACHE;
+        const names = (await fsp.readdir(DIRECTORY).catch(() => [] as string[])).filter(name => name.endsWith('.json'));
+        const entries = await Promise.all(names.map(async name => ({ filePath: path.resolve(DIRECTORY, name), stats: await fsp.stat(path.resolve(DIRECTORY, name)).catch(() => null) })));
+        var size = 0, removed = 0;
+
+        for (const { filePath, stats } of entries.filter(entry => entry.stats).sort((a, b) => b.stats!.mtimeMs - a.stats!.mtimeMs)) {
+            if ((Date.now() - stats!.mtimeMs <= EXPIRATION) && (size + stats!.size <= MAX_SIZE)) { size += stats!.size; continue; }
+            await fsp.unlink(filePath).catch(() => {});
+            removed++;
+        }
+
+        if (config.DEBUG && (removed > 0)) { console.log(`[ImageProcessor] Removed ${removed} OCR cache entries, remaining size: ${size} bytes.`); }
+    }
+
+    private static async writeCache(key: string, result: OcrResult): Promise<void> {
+        if (!config.OCR_CACHE.ENABLED) { return; }
+
+        try {
+            await fsp.mkdir(config.OCR_CACHE.DIRECTORY, { recursive: true });
+            await fsp.writeFile(path.resolve(config.OCR_CACHE.DIRECTORY, `${key}.json`), JSON.stringify(result));
+        } catch (e: any) {
+            if (config.DEBUG) { console.log(`[ImageProcessor] Failed to write OCR cache: ${e?.message}`); }
+        }
+    }
+
+
+    public static resize(size: number): void {
+        this.WORKER_COUNT = Math.max(1, size);
+
+        for (const [key, workers] of this.idle) {
+            while ((workers.length > 0) && (this.getWorkerCount() > this.WORKER_COUNT)) { this.destroyWorker(workers.pop()!, key); }
+        }
+
+        this.available.notifyAll();
+    }
+
+    public static getPoolSize(): number {
+        return this.WORKER_COUNT;
+    }
+
+    public static getWorkerCount(): number {
+        return this.keys.size + this.starting;
+    }
+
+    public static parseLanguages(input: any): OcrLanguages | null {
+        if (input === 'auto') { return 'auto'; }
+        const languages = [...new Set((Array.isArray(input) ? input : String(input ?? '').split(/[+,\s]/)).map(language => String(language).trim().toLowerCase()).filter(language => language))];
+        if (!Utils.between(languages.length, 1, config.OCR_LANGUAGES.MAX_SELECTED)) { return null; }
+        if (!languages.every(language => config.OCR_LANGUAGES.ALLOWED.includes(language))) { return null; }
+        return languages;
+    }
+
+    private static async createWorker(languages: string[]): Promise<Tesseract.Worker> {
+        const worker = await createWorker(languages, OEM.DEFAULT, { errorHandler: () => {}, logger: async (m) => {
             if (m.status !== 'recognizing text') { return ; }
-            await ImageProcessor.callbacks.get(m.userJobId)?.setProgress(m.progress * 100);
+            await ImageProcessor.callbacks.get(m.userJobId)?.(m.progress * 100);
         }});
 
         const { jobId: workerId } = await worker.setParameters({ user_defined_dpi: '300' });
-        if (config.DEBUG) { console.log(`[ImageProcessor] Loaded Tesseract Worker: (${workerId})`); }
+        if (config.DEBUG) { console.log(`[ImageProcessor] Loaded Tesseract Worker: (${workerId}), languages: ${languages.join('+')}`); }
         return worker;
     }
 
-    public static async loadTesseract() {
-        while (this.loading) { await new Promise(res => setTimeout(res, 1)); }
-        if (this.workers.length != this.WORKER_COUNT) { this.loading = true; }
-        for (let i = this.workers.length; i < this.WORKER_COUNT; i++) { this.workers[i] = await this.createWorker(); }
+    public static async acquire(languages: string[] = config.OCR_LANGUAGES.DEFAULT): Promise<Tesseract.Worker> {
+        const key = [...languages].sort().join('+');
+
+        while (true) {
+            const idle = this.idle.get(key)?.pop();
+            if (idle) { this.busy.add(idle); return idle; }
+            if ((this.getWorkerCount() >= this.WORKER_COUNT) && !this.evictWorker()) { await this.available.wait(); continue; }
+
+            this.starting++;
+
+            try {
+                const worker = await this.loader.use(() => this.createWorker(languages));
+                this.keys.set(worker, key);
+                this.busy.add(worker);
+                return worker;
+            } finally {
+                this.starting--;
+                this.available.notifyAll();
+            }
+        }
+    }
+
+    public static release(worker: Tesseract.Worker): void {
+        const key = this.keys.get(worker);
+        if (!key || !this.busy.delete(worker)) { return; }
+        if (this.getWorkerCount() > this.WORKER_COUNT) { this.destroyWorker(worker, key); }
+        else { this.idle.set(key, (this.idle.get(key) || []).concat(worker)); }
+        this.available.notifyAll();
+    }
+
+    private static evictWorker(): boolean {
+        const entry = [...this.idle.entries()].find(([_, workers]) => workers.length > 0);
+        if (!entry) { return false; }
+        this.destroyWorker(entry[1].shift()!, entry[0]);
+        return true;
+    }
+
+    private static destroyWorker(worker: Tesseract.Worker, key: string): void {
+        this.keys.delete(worker);
+        this.busy.delete(worker);
+        this.idle.set(key, (this.idle.get(key) || []).filter(idle => idle !== worker));
+        worker.terminate().catch(() => {});
+        if (config.DEBUG) { console.log(`[ImageProcessor] Terminated Tesseract Worker (${key}), remaining: ${this.getWorkerCount()}`); }
+    }
+
+    public static async loadDetector() {
+        return await this.loader.use(async () => {
+            if (!this.detector) { this.detector = await createWorker('osd', OEM.TESSERACT_ONLY, { legacyCore: true, legacyLang: true, errorHandler: () => {} }); }
+            return this.detector;
+        });
+    }
+
+    public static async detect(source: ImageLike): Promise<Tesseract.DetectData | null> {
+        try {
+            const { data } = await (await this.loadDetector()).detect(source);
+            if (config.DEBUG) { console.log(`[ImageProcessor] Detected script: ${data.script}, orientation: ${data.orientation_degrees}`); }
+            return data;
+        } catch (error: any) {
+            if (config.DEBUG) { console.log(`[ImageProcessor] Detection failed: ${error?.message || error}`); }
+            return null;
+        }
+    }
+
+    public static async detectLanguages(source: ImageLike): Promise<string[]> {
+        return this.getScriptLanguages((await this.detect(source))?.script);
+    }
+
+    public static getScriptLanguages(script?: string | null): string[] {
+        return config.OCR_LANGUAGES.SCRIPTS[script as string] || config.OCR_LANGUAGES.DEFAULT;
+    }
+
+    public static async preprocess(source: string | Buffer): Promise<Buffer | null> {
+        const options = config.OCR_PREPROCESS;
+        if (!options.ENABLED) { return null; }
+
+        var image = sharp(source).flatten({ background: '#ffffff' });
+        if (options.ORIENTATION) { image = image.rotate(); }
+        const { width = 0 } = await sharp(source).metadata();
+        if (options.UPSCALE_MIN_WIDTH && (width < options.UPSCALE_MIN_WIDTH)) { image = image.resize({ width: options.UPSCALE_MIN_WIDTH, kernel: 'lanczos3' }); }
+        if (options.GRAYSCALE) { image = image.grayscale(); }
+        if (options.NORMALIZE) { image = image.normalize(); }
+
+        var buffer = await image.png().toBuffer();
+        if (options.BINARIZE) { buffer = await this.binarize(buffer); }
+        if (options.DESKEW) { buffer = await this.deskew(buffer); }
+        if (options.ORIENTATION) { buffer = await this.orient(buffer); }
+        return buffer;
+    }
+
+    private static async binarize(buffer: Buffer): Promise<Buffer> {
+        const { BINARIZE_RADIUS, BINARIZE_OFFSET } = config.OCR_PREPROCESS;
+        const { data, info } = await sharp(buffer).toColourspace('b-w').raw().toBuffer({ resolveWithObject: true });
+        const { data: mean } = await sharp(buffer).toColourspace('b-w').blur(BINARIZE_RADIUS).raw().toBuffer({ resolveWithObject: true });
+        const output = Buffer.alloc(data.length);
+        for (let i = 0; i < data.length; i++) { output[i] = (data[i] >= mean[i] - BINARIZE_OFFSET) ? 255 : 0; }
+        return await sharp(output, { raw: { width: info.width, height: info.height, channels: 1 } }).png().toBuffer();
+    }
+
+    private static async deskew(buffer: Buffer): Promise<Buffer> {
+        const { DESKEW_MAX_ANGLE, DESKEW_STEP } = config.OCR_PREPROCESS;
+        const sample = await sharp(buffer).resize({ width: 800, withoutEnlargement: true }).toColourspace('b-w').png().toBuffer();
+        var best = { angle: 0, score: -1 };
+
+        for (let angle = -DESKEW_MAX_ANGLE; angle <= DESKEW_MAX_ANGLE; angle += DESKEW_STEP) {
+            const { data, info } = await sharp(sample).rotate(angle, { background: '#ffffff' }).toColourspace('b-w').raw().toBuffer({ resolveWithObject: true });
+            const rows = Array.from({ length: info.height }, (_, y) => data.subarray(y * info.width, (y + 1) * info.width).reduce((sum, value) => sum + (value < 128 ? 1 : 0), 0));
+            const score = rows.reduce((sum, value, y) => sum + ((y > 0) ? (value - rows[y - 1]) ** 2 : 0), 0);
+            if (score > best.score) { best = { angle, score }; }
+        }
+
+        if (config.DEBUG) { console.log(`[ImageProcessor] Deskew angle: ${best.angle}`); }
+        if (Math.abs(best.angle) < DESKEW_STEP) { return buffer; }
+        return await sharp(buffer).rotate(best.angle, { background: '#ffffff' }).png().toBuffer();
+    }
+
+    private static async orient(buffer: Buffer): Promise<Buffer> {
+        const detected = await this.detect(buffer);
+        if (!detected?.orientation_degrees || ((detected.orientation_confidence || 0) < config.OCR_PREPROCESS.MIN_ORIENTATION_CONFIDENCE)) { return buffer; }
+        return await sharp(buffer).rotate(360 - detected.orientation_degrees).png().toBuffer();
+    }
 
-        this.loading = false;
-        this.WORKER_INDEX = (this.WORKER_INDEX + 1) % this.WORKER_COUNT;
-        return this.workers[this.WORKER_INDEX];
+    public static terminateWorker(worker: Tesseract.Worker): void {
+        const key = this.keys.get(worker);
+        if (!key) { return; }
+        this.destroyWorker(worker, key);
+        this.available.notifyAll();
+    }
+
+    protected async getLanguages(source: ImageLike): Promise<string[]> {
+        if (this.languages === 'auto') { return await ImageProcessor.detectLanguages(source); }
+        return this.languages || config.OCR_LANGUAGES.DEFAULT;
+    }
+
+    protected filterText(page: Tesseract.Page): OcrResult {
+        const { WORD_CONFIDENCE, LINE_CONFIDENCE, BLOCK_CONFIDENCE, EXCLUDE_LOW_QUALITY, MIN_IMAGE_CONFIDENCE, MAX_GARBAGE_RATIO } = config.OCR_FILTER;
+        const isGarbage = (word: Tesseract.Word) => (word.confidence < WORD_CONFIDENCE) || !/[\p{L}\p{N}]/u.test(word.text);
+        const blocks: string[] = [];
+        var words = 0, kept = 0, confidence = 0;
+
+        for (const block of page.blocks || []) {
+            const paragraphs: string[] = [];
+
+            for (const paragraph of block.paragraphs) {
+                const lines: string[] = [];
+
+                for (const line of paragraph.lines) {
+                    words += line.words.length;
+                    confidence += line.words.reduce((sum, word) => sum + word.confidence, 0);
+                    if ((block.confidence < BLOCK_CONFIDENCE) || (line.confidence < LINE_CONFIDENCE)) { continue; }
+                    const text = line.words.filter(word => !isGarbage(word)).map(word => word.text);
+                    if (text.length > 0) { lines.push(text.join(' ')); kept += text.length; }
+                }
+
+                if (lines.length > 0) { paragraphs.push(lines.join('\n')); }
+            }
+
+            if (paragraphs.length > 0) { blocks.push(paragraphs.join('\n')); }
+        }
+
+        const garbage = (words > 0) ? (words - kept) / words : 0;
+        const excluded = EXCLUDE_LOW_QUALITY && (words > 0) && ((page.confidence < MIN_IMAGE_CONFIDENCE) || (garbage > MAX_GARBAGE_RATIO));
+        if (config.DEBUG) { console.log(`[ImageProcessor] OCR confidence: ${page.confidence}, words: ${kept}/${words}, garbage: ${garbage.toFixed(2)}, excluded: ${excluded}`); }
+
+        const stats = { images: 1, excluded: excluded ? 1 : 0, words, dropped: excluded ? words : (words - kept), confidence_total: confidence };
+        if (!page.blocks) { return { text: page.text, stats }; }
+        return { text: excluded ? '' : blocks.join('\n\n'), stats };
+    }
+
+    protected async recognize(worker: Tesseract.Worker, source: ImageLike, pass: number, passes: number): Promise<Tesseract.Page> {
+        const jobId = `${this.jobId}-${pass}`;
+        ImageProcessor.callbacks.set(jobId, async (progress) => await this.setProgress((pass * 100 + progress) / passes));
+
+        try {
+            return (await worker.recognize(source, {}, { blocks: true }, jobId)).data;
+        } finally {
+            ImageProcessor.callbacks.delete(jobId);
+        }
     }
 
     protected async extractImplementation(): Promise<string | null> {
-        const worker = await ImageProcessor.loadTesseract();
-        const source = this.filePath ? this.filePath : this.buffer;
-        ImageProcessor.callbacks.set(this.jobId, this);
-        const { data: { text } } = await worker.recognize(source as ImageLike, {}, {}, this.jobId);
-        ImageProcessor.callbacks.delete(this.jobId);
-        return text;
+        this.signal?.throwIfAborted();
+        const source = (this.filePath ? this.filePath : this.buffer) as string | Buffer;
+        const key = ImageProcessor.getCacheKey(Buffer.isBuffer(source) ? source : await fsp.readFile(source), this.languages);
+        const cached = await ImageProcessor.readCache(key);
+        if (cached) { this.ocrStats = cached.stats; return cached.text; }
+
+        const processed = await ImageProcessor.preprocess(source).catch(() => null);
+        const candidates = [processed, (!processed || config.OCR_PREPROCESS.COMPARE_RAW) ? source : null].filter(candidate => candidate) as ImageLike[];
+        const worker = await ImageProcessor.acquire(await this.getLanguages(candidates[0]));
+
+        let abort: () => void = () => {};
+        const aborted = new Promise<never>((_, reject) => { abort = () => { ImageProcessor.terminateWorker(worker); reject(this.signal?.reason); }; });
+        this.signal?.addEventListener('abort', abort, { once: true });
+
+        try {
+            const pages: Tesseract.Page[] = [];
+            for (const [pass, candidate] of candidates.entries()) { pages.push(await Promise.race([this.recognize(worker, candidate, pass, candidates.length), aborted])); }
+            const best = pages.reduce((best, page) => (page.confidence > best.confidence) ? page : best);
+            if (config.DEBUG && (pages.length > 1)) { console.log(`[ImageProcessor] Confidence processed: ${pages[0].confidence}, raw: ${pages[1].confidence}, using: ${(best === pages[0]) ? 'processed' : 'raw'}`); }
+            const result = this.filterText(best);
+            this.ocrStats = result.stats;
+            await ImageProcessor.writeCache(key, result);
+            return result.text;
+        } finally {
+            this.signal?.removeEventListener('abort', abort);
+            ImageProcessor.release(worker);
+        }
     }
 }
\ No newline at end of file
@@ -1,35 +1,35 @@
 import sharp from 'sharp'
 import * as fsp from 'fs/promises';
-import { extractText, extractImages, getDocumentProxy } from 'unpdf'
+import { extractText, extractImages, getDocumentProxy, renderPageAsImage } from 'unpdf'
 import { FileProcessor } from './file_processor.js';
 import { ImageProcessor } from './image_processor.js';
+import config from '../config.js';
 
 export class PdfProcessor extends FileProcessor {
-    async extractImage(
-        imgData: { data: Uint8ClampedArray, width: number, height: number, channels: number },
-        i: number,
-        j: number,
-        totalPages: number,
-        totalImagesOnPage: number
-    ): Promise<string> {
-        const pageProgressSlice = 80 / totalPages;
-        const imageProgressSlice = pageProgressSlice / totalImagesOnPage;
-        const imageStartProgress = 20 + (i * pageProgressSlice) + (j * imageProgressSlice);
-
-        const imageBuffer = await sharp(imgData.data, {
+    async extractImage(imgData: { data: Uint8ClampedArray, width: number, height: number, channels: number }): Promise<Buffer> {
+        return await sharp(imgData.data, {
             raw: { width: imgData.width, height: imgData.height, channels: imgData.channels as any }
         }).png().toBuffer();
-        this.setProgress(imageStartProgress + imageProgressSlice * 0.10);
+    }
+
+    async extractPage(pdf: Awaited<ReturnType<typeof getDocumentProxy>>, i: number): Promise<Buffer> {
+        const scale = config.PDF_OCR.DPI / 72;
+        return Buffer.from(await renderPageAsImage(pdf, i + 1, { canvasImport: () => import('@napi-rs/canvas'), scale }));
+    }
 
-        const imageProcessor = new ImageProcessor(imageBuffer);
-        const ocrStartProgress = imageStartProgress + imageProgressSlice * 0.10;
+    async extractPageText(pdf: Awaited<ReturnType<typeof getDocumentProxy>>, i: number, text: string, progressCallback: (progress: number) => Promise<void>): Promise<string> {
+        this.signal?.throwIfAborted();
+        const scanned = PdfProcessor.needsOcr(text);
+        const elements: (Buffer | string)[] = [scanned ? await this.extractPage(pdf, i) : text];
 
-        imageProcessor.setCallback(async (ocrProgress) => {
-            const progressInSlice = (ocrProgress / 100) * (imageProgressSlice * 0.90);
-            await this.setProgress(ocrStartProgress + progressInSlice);
-        });
+        for (const image of scanned ? [] : (await extractImages(pdf, i + 1)) as any[] || []) {
+            this.signal?.throwIfAborted();
+            elements.push(await this.extractImage(image));
+        }
 
-        return await imageProcessor.extractText() as string;
+        this.addOcrStats(await ImageProcessor.processArray(elements, progressCallback, this.signal, this.languages));
+        const [content, ...images] = elements as string[];
+        return images.length ? `${content} ${images.join('\n')}` : String(content);
     }
 
     protected async extractImplementation(): Promise<string | null> {
@@ -37,17 +37,29 @@ export class PdfProcessor extends FileProcessor {
         this.setProgress(10);
         const pdf = await getDocumentProxy(new Uint8Array(this.buffer as Buffer), { verbosity: 0 });
         let text_pages = (await extractText(pdf)).text;
+        const progress = new Array<number>(text_pages.length).fill(0);
+        const report = async () => await this.setProgress(20 + 80 * progress.reduce((sum, value) => sum + value, 0) / (100 * Math.max(1, text_pages.length)));
         this.setProgress(20);
 
-        for (let i = 0; i < text_pages.length; i++) {
-            const text = text_pages[i] ?? '';
-            const images = (await extractImages(pdf, i + 1)) as any[] || [];
-            for (let j = 0; j < images.length; j++) { images[j] = await this.extractImage(images[j], i, j, text_pages.length, images.length); }
-            text_pages[i] = `${text} ${images.join('\n')}`;
-            this.setProgress(20 + Math.floor(80 * (i + 1) / text_pages.length));
+        for (let start = 0; start < text_pages.length; start += ImageProcessor.getPoolSize()) {
+            const batch = text_pages.slice(start, start + ImageProcessor.getPoolSize()).map((_, offset) => start + offset);
+
+            await Promise.all(batch.map(async (i) => {
+                text_pages[i] = await this.extractPageText(pdf, i, text_pages[i] ?? '', async (value) => { progress[i] = value; await report(); });
+                progress[i] = 100;
+                await report();
+            }));
         }
 
         if (this.filePath && this.buffer) { this.buffer = undefined; }
+        this.segments = text_pages.map((text, i) => ({ text, location: { page: i + 1 } }));
         return text_pages.join('\n');
     }
+
+    static needsOcr(text: string): boolean {
+        const content = text.replace(/\s+/g, '');
+        if (content.length < config.PDF_OCR.MIN_TEXT_LENGTH) { return true; }
+        const garbage = content.match(/[^\p{L}\p{N}\p{P}\p{S}]|\uFFFD/gu)?.length || 0;
+        return (garbage / content.length) > config.PDF_OCR.MAX_GARBAGE_RATIO;
+    }
 }
\ No newline at end of file
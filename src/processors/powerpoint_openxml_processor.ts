@@ -21,8 +21,16 @@ export class PowerPointOpenXMLProcessor extends FileProcessor {
         };
 
         var pptx = await extractPptx(this.filePath);
-        const elements = await traverse(pptx, pptx.slides, []) as (Buffer | string)[];
-        await ImageProcessor.processArray(elements, async (progress) => await this.setProgress(10 + 90 * (progress / 100)));
+        const elements: (Buffer | string)[] = [];
+        const slides: number[] = [];
+
+        for (const [index, slide] of (pptx.slides || []).entries()) {
+            await traverse(pptx, slide, elements);
+            while (slides.length < elements.length) { slides.push(index + 1); }
+        }
+
+        this.addOcrStats(await ImageProcessor.processArray(elements, async (progress) => await this.setProgress(10 + 90 * (progress / 100)), this.signal, this.languages));
+        this.segments = this.groupSegments(elements as string[], slides, 'slide');
         return (elements as string[]).join('\n');
     }
 }
\ No newline at end of file
@@ -16,7 +16,7 @@ export class WordOpenDocumentProcessor extends FileProcessor {
 
         const htmlContent = await OdtConverter.toHTML({ path: this.filePath });
         const elements = traverse((cheerio.load(htmlContent))('body')[0], []);
-        await ImageProcessor.processArray(elements, async (progress) => await this.setProgress(10 + 90 * (progress / 100)));
+        this.addOcrStats(await ImageProcessor.processArray(elements, async (progress) => await this.setProgress(10 + 90 * (progress / 100)), this.signal, this.languages));
         return elements.join('\n');
     }
 }
\ No newline at end of file
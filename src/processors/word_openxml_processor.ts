@@ -6,9 +6,14 @@ export class WordOpenXMLProcessor extends FileProcessor {
     protected async extractImplementation(): Promise<string | null> {
         var source = this.filePath ? { path: this.filePath } : { buffer: this.buffer };
 
+        const paragraphs: number[] = [];
+        let paragraph = 0;
+
         const traverse = async (element: any, elements: any[]) => {
+            if (element.type === 'paragraph') { paragraph++; }
             if (element.type === 'text') { elements.push(element.value) }
             if (element.type === 'image') { elements.push(await element.readAsBuffer()) }
+            while (paragraphs.length < elements.length) { paragraphs.push(paragraph); }
             for (const child of element.children || []) { await traverse(child, elements); }
             return elements;
         };
@@ -19,7 +24,8 @@ export class WordOpenXMLProcessor extends FileProcessor {
             } catch (err) { reject(err); }
         }), []);
 
-        await ImageProcessor.processArray(elements, async (progress) => await this.setProgress(10 + 90 * (progress / 100)));
+        this.addOcrStats(await ImageProcessor.processArray(elements, async (progress) => await this.setProgress(10 + 90 * (progress / 100)), this.signal, this.languages));
+        this.segments = this.groupSegments(elements, paragraphs, 'paragraph');
         return elements.join('\n');
     }
 }
\ No newline at end of file
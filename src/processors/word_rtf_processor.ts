@@ -26,7 +26,7 @@ export class WordRtfProcessor extends FileProcessor {
             try { elements.push(Buffer.from(match[2], 'hex')); } catch (e) { continue; }
         }
 
-        await ImageProcessor.processArray(elements, async (progress) => await this.setProgress(10 + 90 * (progress / 100)));
+        this.addOcrStats(await ImageProcessor.processArray(elements, async (progress) => await this.setProgress(10 + 90 * (progress / 100)), this.signal, this.languages));
         return elements.join('\n');
     }
 }
\ No newline at end of file
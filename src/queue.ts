@@ -1,11 +1,51 @@
 import { EventEmitter } from "events";
 import { randomUUID } from "crypto";
 
+export class Condition {
+    private waiters: (() => void)[] = [];
+
+    wait(): Promise<void> {
+        return new Promise(resolve => this.waiters.push(resolve));
+    }
+
+    notifyAll(): void {
+        this.waiters.splice(0).forEach(resolve => resolve());
+    }
+}
+
+export class Semaphore {
+    private permits: number;
+    private waiters: (() => void)[] = [];
+
+    constructor(permits: number = 1) {
+        this.permits = Math.max(1, permits);
+    }
+
+    available(): number { return this.permits; }
+    waiting(): number { return this.waiters.length; }
+
+    async acquire(): Promise<void> {
+        if (this.permits > 0) { this.permits--; return; }
+        await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+
+    release(): void {
+        const next = this.waiters.shift();
+        if (next) { next(); } else { this.permits++; }
+    }
+
+    async use<T>(callback: () => Promise<T> | T): Promise<T> {
+        await this.acquire();
+        try { return await callback(); } finally { this.release(); }
+    }
+}
+
 export class SerialQueue {
     private items: any[] = [];
     private limit: number = 1;
     private working: boolean = false;
     private open: boolean = true;
+    private changed: Condition = new Condition();
     private callback: (...args: any[]) => Promise<boolean|void> | boolean | void;
 
     constructor(callback: any, limit: number) {
@@ -24,8 +64,8 @@ export class SerialQueue {
     }
 
     async waitForQueue(bEmpty: boolean): Promise<void> {
-        if (bEmpty) { while (this.open && (this.items.length > 0)) { await new Promise(resolve => setTimeout(resolve, 1)); } }
-        if (!bEmpty) { while (this.open && (this.items.length >= this.limit)) { await new Promise(resolve => setTimeout(resolve, 1)); } }
+        if (bEmpty) { while (this.open && (this.items.length > 0)) { await this.changed.wait(); } }
+        if (!bEmpty) { while (this.open && (this.items.length >= this.limit)) { await this.changed.wait(); } }
     }
 
     private async work(): Promise<void> {
@@ -34,6 +74,7 @@ export class SerialQueue {
         while (this.working && (this.items.length > 0)) {
             var b1 = await this.callback(...this.items[0]);
             if ((b1 !== undefined) && !b1) { this.close(); break; } else { this.items.shift(); }
+            this.changed.notifyAll();
         }
 
         this.working = false;
@@ -41,6 +82,7 @@ export class SerialQueue {
 
     clear(): void {
         this.items = [];
+        this.changed.notifyAll();
     }
 
     close(): void {
@@ -60,6 +102,7 @@ export class ParalelQueue {
     private working: boolean = false;
     private clearing: boolean = false;
     private open: boolean = true;
+    private changed: Condition = new Condition();
     private func_callback: (...args: any[]) => Promise<any> | any;
     private outp_callback: (...args: any[]) => Promise<void> | void;
 
@@ -81,8 +124,8 @@ export class ParalelQueue {
     }
 
     async waitForQueue(bEmpty: boolean): Promise<void> {
-        if (bEmpty) { while (this.open && (this.outp_order != this.push_order)) { await new Promise(resolve => setTimeout(resolve, 1)); } }
-        if (!bEmpty) { while (this.open && (this.items.size >= this.limit)) { await new Promise(resolve => setTimeout(resolve, 1)); } }
+        if (bEmpty) { while (this.open && (this.outp_order != this.push_order)) { await this.changed.wait(); } }
+        if (!bEmpty) { while (this.open && (this.items.size >= this.limit)) { await this.changed.wait(); } }
     }
 
     private async work(): Promise<void> {
@@ -95,7 +138,7 @@ export class ParalelQueue {
             this.work_order++;
             this.curr_working++;
             this.callback(item[0], item[1]);
-            while (this.open && (this.curr_working >= this.limit)) { await new Promise(resolve => setTimeout(resolve, 1)); }
+            while (this.open && (this.curr_working >= this.limit)) { await this.changed.wait(); }
         }
 
         this.working = false;
@@ -103,17 +146,19 @@ export class ParalelQueue {
 
     private async callback(order: number, args: any[]): Promise<any> {
         if (this.open) { var result = await this.func_callback(...args); }
-        while (!this.clearing && (this.outp_order != order)) { await new Promise(resolve => setTimeout(resolve, 1)); }
-        if (this.clearing) { return this.outp_order = this.push_order; }
+        while (!this.clearing && (this.outp_order != order)) { await this.changed.wait(); }
+        if (this.clearing) { this.changed.notifyAll(); return this.outp_order = this.push_order; }
         if (this.open && this.items.has(order)) { await this.outp_callback(result); }
         this.items.delete(order);
         this.curr_working--;
         this.outp_order++;
+        this.changed.notifyAll();
     }
 
     clear(): void {
         this.items.clear();
         this.clearing = true;
+        this.changed.notifyAll();
     }
 
     close(): void {
@@ -123,29 +168,59 @@ export class ParalelQueue {
     }
 }
 
+export interface OrderedQueueOptions {
+    client?: string;
+    priority?: number;
+    weight?: number;
+    force?: boolean;
+}
+
+interface OrderedQueueItem {
+    id: string;
+    client: string;
+    priority: number;
+    start: number;
+    finish: number;
+    sequence: number;
+}
+
 export class OrderedQueue extends EventEmitter {
-    private queue: string[] = [];
+    private running: OrderedQueueItem[] = [];
+    private pending: OrderedQueueItem[] = [];
     private waiting = new Map<string, { resolve: (status: boolean) => void; promise: Promise<boolean>; }>();
+    private finishTimes = new Map<string, number>();
+    private virtualTime: number = 0;
+    private sequence: number = 0;
     private readonly limit: number;
+    private readonly maxPerClient: number;
 
-    constructor(limit: number) {
+    constructor(limit: number, maxPerClient: number = 0) {
         super();
         if (limit < 1) { throw new Error("Limit cannot be less than 1."); }
         this.limit = limit;
+        this.maxPerClient = Math.max(0, maxPerClient);
     }
 
     public inqueue(id: string): boolean {
-        return this.queue.includes(id);
+        return this.getQueue().includes(id);
     }
 
     public active(id: string): boolean {
-        const index = this.queue.indexOf(id);
-        return index > -1 && index < this.limit;
+        return this.running.some(item => item.id === id);
     }
 
-    public enqueue(): string | null {
+    public enqueue(options: OrderedQueueOptions = {}): string | null {
+        const client = options.client || '';
+        if (client && !options.force && (this.maxPerClient > 0) && (this.count(client) >= this.maxPerClient)) { return null; }
+
         const id = randomUUID();
-        this.queue.push(id);
+        const start = Math.max(this.virtualTime, this.finishTimes.get(client) ?? 0);
+        const finish = start + (1 / Math.max(options.weight || 1, 0.01));
+        this.finishTimes.set(client, finish);
+
+        const item: OrderedQueueItem = { id, client, priority: options.priority || 0, start, finish, sequence: this.sequence++ };
+        const index = this.pending.findIndex(other => OrderedQueue.compare(item, other) < 0);
+        this.pending.splice((index === -1) ? this.pending.length : index, 0, item);
 
         let resolver: (status: boolean) => void;
         const promise = new Promise<boolean>((resolve) => { resolver = resolve; });
@@ -156,19 +231,18 @@ export class OrderedQueue extends EventEmitter {
     }
 
     public dequeue(id: string): boolean {
-        const index = this.queue.indexOf(id);
-
-        if (index > -1) {
-            this.queue.splice(index, 1);
-            const waiter = this.waiting.get(id);
-            if (waiter) { waiter.resolve(false); }
-            this.waiting.delete(id);
-            this.emit('dequeue', id);
-            this.processQueue();
-            return true;
-        }
+        const list = this.running.some(item => item.id === id) ? this.running : this.pending;
+        const index = list.findIndex(item => item.id === id);
+        if (index === -1) { return false; }
 
-        return false;
+        const [item] = list.splice(index, 1);
+        const waiter = this.waiting.get(id);
+        if (waiter) { waiter.resolve(false); }
+        this.waiting.delete(id);
+        if (item.client && (this.count(item.client) === 0)) { this.finishTimes.delete(item.client); }
+        this.emit('dequeue', id);
+        this.processQueue();
+        return true;
     }
 
     public async wait(id: string): Promise<boolean> {
@@ -177,30 +251,44 @@ export class OrderedQueue extends EventEmitter {
         return waiter.promise;
     }
 
-    private processQueue(): void {
-        const activeUsers = this.queue.slice(0, this.limit);
+    private static compare(a: OrderedQueueItem, b: OrderedQueueItem): number {
+        if (a.priority !== b.priority) { return b.priority - a.priority; }
+        if (a.finish !== b.finish) { return a.finish - b.finish; }
+        return a.sequence - b.sequence;
+    }
 
-        for (const id of activeUsers) {
-            const waiter = this.waiting.get(id);
-            if (!waiter) { continue; }
-            waiter.resolve(true);
-            this.emit('active', id);
+    private processQueue(): void {
+        while ((this.running.length < this.limit) && (this.pending.length > 0)) {
+            const item = this.pending.shift()!;
+            this.running.push(item);
+            this.virtualTime = Math.max(this.virtualTime, item.start);
+            const waiter = this.waiting.get(item.id);
+            if (waiter) { waiter.resolve(true); }
+            this.emit('active', item.id);
         }
     }
 
+    public count(client: string): number {
+        return this.running.filter(item => item.client === client).length + this.pending.filter(item => item.client === client).length;
+    }
+
     public getPosition(id: string): number {
-        return this.queue.indexOf(id);
+        return this.getQueue().indexOf(id);
     }
 
     public getQueue(): string[] {
-        return [...this.queue];
+        return [...this.running, ...this.pending].map(item => item.id);
     }
 
     public size(): number {
-        return this.queue.length;
+        return this.running.length + this.pending.length;
     }
 
     public max(): number {
         return this.limit;
     }
-}
\ No newline at end of file
+
+    public maxClient(): number {
+        return this.maxPerClient;
+    }
+}
@@ -0,0 +1,101 @@
+import * as fsp from 'fs/promises';
+import path from 'path';
+import { createHash, Hash } from 'crypto';
+import config from './config.js';
+import { JobStatus, JobTracker } from './tracker.js';
+import { GlossaryOptions } from './glossary/glossary.js';
+import { GlossaryGeneratorType } from './glossary/factory.js';
+
+export interface ResumableUpload {
+    id: string;
+    jobId: string;
+    filename: string;
+    mimeType: string;
+    filePath: string;
+    size: number;
+    offset: number;
+    hash: Hash;
+    ip_address: string;
+    owner?: string;
+    generator?: GlossaryGeneratorType;
+    options?: GlossaryOptions;
+    busy: boolean;
+    access_date: number;
+}
+
+class ResumableUploadController {
+    private uploads: Map<string, ResumableUpload> = new Map();
+
+    constructor() {
+        setInterval(() => this.removeExpired(), config.RESUMABLE_UPLOAD.CLEANUP_INTERVAL).unref();
+    }
+
+    public async create(filename: string, mimeType: string, size: number, ip_address: string, owner?: string, generator?: GlossaryGeneratorType, options?: GlossaryOptions): Promise<ResumableUpload> {
+        const id = crypto.randomUUID();
+        const filePath = path.resolve(config.UPLAOD_DIRECTORY, `${Date.now()}_${Math.random()}.${path.extname(filename)}`);
+        await fsp.writeFile(filePath, Buffer.alloc(0));
+
+        const jobId = JobTracker.addJob(filename, JobStatus.UPLOADING, 0, undefined, ip_address, owner);
+        const upload: ResumableUpload = { id, jobId, filename, mimeType, filePath, size, offset: 0, hash: createHash('sha256'), ip_address, owner: owner || undefined, generator, options, busy: false, access_date: Date.now() };
+        this.uploads.set(id, upload);
+        console.log(`[RESUMABLE UPLOADS] -> created id: ${id}, jobId: ${jobId}, size: ${size}, filename: ${filename}`);
+        return upload;
+    }
+
+    public get(id: string): ResumableUpload | null {
+        return this.uploads.get(id) || null;
+    }
+
+    public lock(id: string): ResumableUpload | null {
+        const upload = this.uploads.get(id);
+        if (!upload || upload.busy) { return null; }
+        upload.busy = true;
+        upload.access_date = Date.now();
+        return upload;
+    }
+
+    public unlock(id: string): void {
+        const upload = this.uploads.get(id);
+        if (!upload) { return; }
+        upload.busy = false;
+        upload.access_date = Date.now();
+    }
+
+    public commit(id: string, offset: number, hash: Hash): void {
+        const upload = this.uploads.get(id);
+        if (!upload) { return; }
+        upload.offset = offset;
+        upload.hash = hash;
+        upload.access_date = Date.now();
+        if (config.DEBUG) { console.log(`[RESUMABLE UPLOADS] -> commit id: ${id}, offset: ${offset}/${upload.size}`); }
+    }
+
+    public async rollback(id: string): Promise<void> {
+        const upload = this.uploads.get(id);
+        if (!upload) { return; }
+        try { await fsp.truncate(upload.filePath, upload.offset); } catch (e: any) { console.log(`[RESUMABLE UPLOADS] -> rollback id: ${id}, error: ${e?.message}`); }
+        JobTracker.updateJob(upload.jobId, JobStatus.UPLOADING, (upload.offset / upload.size) * 100);
+    }
+
+    public release(id: string): ResumableUpload | null {
+        const upload = this.uploads.get(id);
+        if (!upload) { return null; }
+        this.uploads.delete(id);
+        return upload;
+    }
+
+    public remove(id: string): void {
+        const upload = this.release(id);
+        if (!upload) { return; }
+        JobTracker.removeJob(upload.jobId);
+        fsp.unlink(upload.filePath).catch(() => {});
+        console.log(`[RESUMABLE UPLOADS] -> removed id: ${id}, offset: ${upload.offset}/${upload.size}, filename: ${upload.filename}`);
+    }
+
+    private removeExpired(): void {
+        const expired = Array.from(this.uploads.values()).filter(upload => !upload.busy && (Date.now() - upload.access_date > config.RESUMABLE_UPLOAD.EXPIRATION));
+        expired.forEach(upload => this.remove(upload.id));
+    }
+}
+
+export const ResumableUploads = new ResumableUploadController();
@@ -1,12 +1,14 @@
+import crypto from 'crypto';
 import { IncomingMessage, ServerResponse } from 'http';
 import config from '../config.js';
-import { DatabaseManager } from '../database/manager.js';
+import { DatabaseManager, UsageDelta } from '../database/manager.js';
 
 export type ExtendedRequest = IncomingMessage & { [key: string]: any; };
 export type ExtendedResponse = ServerResponse & { [key: string]: any; };
 export type DoneCallback = (err?: Error) => void;
 
 export class DefaultRoute {
+    private static requests: Map<string, { start: number, count: number }> = new Map();
     protected ip_address: string = null as unknown as string;
     protected req: ExtendedRequest;
     protected res: ExtendedResponse;
@@ -32,20 +34,46 @@ export class DefaultRoute {
         return config.ERROR_CODES['444.0'];
     }
 
+    protected async _patch(): Promise<{ code: number, message: string, data?: any } | void> {
+        return config.ERROR_CODES['444.0'];
+    }
+
+    protected async getQuotaUsage(): Promise<UsageDelta | null> {
+        return null;
+    }
+
     public async post(): Promise<void> {
-        this.ip_address = DefaultRoute.getIpId(this.req).ip;
-        if (!this.ip_address || await DatabaseManager.isIPBanned(this.ip_address)) { return this.sendResponse(null, config.ERROR_CODES['403.1']); }
-        try { var result = await this._post(); } catch(error) { console.error(error); return this.sendResponse(null, config.ERROR_CODES['500.0']); }
-        if (result) { DefaultRoute.sendResponse(this.res, result.code, result); }
+        return await this.handle(() => this._post());
     }
 
     public async get(): Promise<void> {
+        return await this.handle(() => this._get());
+    }
+
+    public async patch(): Promise<void> {
+        return await this.handle(() => this._patch());
+    }
+
+    private async handle(callback: () => Promise<{ code: number, message: string, data?: any } | void>): Promise<void> {
         this.ip_address = DefaultRoute.getIpId(this.req).ip;
         if (!this.ip_address || await DatabaseManager.isIPBanned(this.ip_address)) { return this.sendResponse(null, config.ERROR_CODES['403.1']); }
-        try { var result = await this._get(); } catch(error) { console.error(error); return this.sendResponse(null, config.ERROR_CODES['500.0']); }
+        if (await this.checkLimits()) { return; }
+        try { var result = await callback(); } catch(error) { console.error(error); return this.sendResponse(null, config.ERROR_CODES['500.0']); }
         if (result) { this.sendResponse(result.code, result); }
     }
 
+    private async checkLimits(): Promise<boolean> {
+        const requestRetry = DefaultRoute.checkRequestLimit(this.ip_address);
+        const usage = requestRetry ? null : await this.getQuotaUsage();
+        const quotaRetry = usage ? await DatabaseManager.checkDailyQuota(this.ip_address, usage) : 0;
+        if (!requestRetry && !quotaRetry) { return false; }
+
+        console.log(`[RATE LIMIT] -> ip: ${this.ip_address}, url: ${this.req.url}, requestRetry: ${requestRetry}, quotaRetry: ${quotaRetry}`);
+        this.res.setHeader('Retry-After', String(Math.max(1, requestRetry || quotaRetry)));
+        this.sendResponse(null, { ...config.ERROR_CODES[requestRetry ? '429.1' : '429.2'], retry_after: Math.max(1, requestRetry || quotaRetry) });
+        return true;
+    }
+
     public sendResponse(code?: number | null, data?: any): void {
         DefaultRoute.sendResponse(this.res, code, data);
     }
@@ -54,6 +82,42 @@ export class DefaultRoute {
         return DefaultRoute.getIpId(this.req);
     }
 
+    public isAdmin(): boolean {
+        return DefaultRoute.isAdmin(String(this.req.headers['authorization'] || '').replace(/^Bearer\s+/i, ''));
+    }
+
+    public getSession(): string | undefined {
+        const [session, token] = [this.req.headers['x-session'], this.req.headers['x-session-token']] as string[];
+        return DefaultRoute.verifySession(session, token) ? session : undefined;
+    }
+
+    static isAdmin(token?: string): boolean {
+        if (!config.ADMIN_TOKEN || (typeof token !== 'string')) { return false; }
+        const [a, b] = [Buffer.from(token), Buffer.from(config.ADMIN_TOKEN)];
+        return (a.length === b.length) && crypto.timingSafeEqual(a, b);
+    }
+
+    static checkRequestLimit(ip_address: string): number {
+        const limit = config.RATE_LIMITS.REQUESTS_PER_MINUTE;
+        if (limit <= 0) { return 0; }
+
+        for (const [key, counter] of DefaultRoute.requests) { if (Date.now() - counter.start >= 60 * 1000) { DefaultRoute.requests.delete(key); } }
+        const counter = DefaultRoute.requests.get(ip_address) || { start: Date.now(), count: 0 };
+        if (counter.count >= limit) { return Math.ceil((counter.start + 60 * 1000 - Date.now()) / 1000); }
+        DefaultRoute.requests.set(ip_address, { ...counter, count: counter.count + 1 });
+        return 0;
+    }
+
+    static signSession(session: string): string {
+        return crypto.createHmac('sha256', config.SESSION_SECRET).update(session).digest('hex');
+    }
+
+    static verifySession(session?: string, token?: string): boolean {
+        if ((typeof session !== 'string') || (typeof token !== 'string') || !config.UUIDV4_REGEX.test(session)) { return false; }
+        const [a, b] = [Buffer.from(token), Buffer.from(DefaultRoute.signSession(session))];
+        return (a.length === b.length) && crypto.timingSafeEqual(a, b);
+    }
+
     static getIpId(req: ExtendedRequest): { ip: string, id: string } {
         try { var ip = (req.headers['x-forwarded-for'] as string || req.socket.remoteAddress)!.split(':').pop(); } catch(e) { ip = ''; }
         try { var id = req.url!.match(/\b[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\b/g)![0] } catch(e) { id = ''; }
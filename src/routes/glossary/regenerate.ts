@@ -0,0 +1,33 @@
+import config from '../../config.js';
+import { DatabaseManager, UsageDelta } from '../../database/manager.js';
+import { GlossaryFactory } from '../../glossary/factory.js';
+import { Tokenizer } from '../../glossary/tokenizer.js';
+import { JobStatus, JobTracker, QueueTracker } from '../../tracker.js';
+import { JobPipeline } from '../../pipeline.js';
+import { DefaultRoute } from '../default.js';
+
+export class GlossaryRegenerateRoute extends DefaultRoute {
+    async _post(): Promise<{ code: number, message: string, data?: any } | void> {
+        const { hash, generator, socketId, ...input } = this.req.body || {};
+        if ((typeof hash !== 'string') || !config.HASH_REGEX.test(hash)) { return config.ERROR_CODES['400.0']; }
+
+        const options = GlossaryFactory.parseOptions(input);
+        if (!GlossaryFactory.isAllowedGenerator(generator) || !options) { return config.ERROR_CODES['400.5']; }
+
+        const file = await DatabaseManager.getFile(hash) as any;
+        if (!file) { return config.ERROR_CODES['404.0']; }
+        if (JobPipeline.isFull(this.ip_address)) { return config.ERROR_CODES['429.0']; }
+
+        const owner = ((typeof socketId === 'string') && QueueTracker.hasSocket(socketId)) ? socketId : undefined;
+        const jobId = JobTracker.addJob(file.filename, JobStatus.QUEUED, 0, undefined, this.ip_address, owner);
+        JobPipeline.regenerate({ jobId, hash, filename: file.filename, generator, options }, this.ip_address);
+        return { ...config.ERROR_CODES['202.0'], data: { jobId, hash, generator } };
+    }
+
+    protected async getQuotaUsage(): Promise<UsageDelta | null> {
+        const { hash } = this.req.body || {};
+        if ((typeof hash !== 'string') || !config.HASH_REGEX.test(hash)) { return null; }
+        const text = await DatabaseManager.getFileText(hash);
+        return { tokens: (typeof text === 'string') ? await Tokenizer.countTokens(text) : 0 };
+    }
+}
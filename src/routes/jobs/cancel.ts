@@ -0,0 +1,12 @@
+import config from '../../config.js';
+import { JobPipeline } from '../../pipeline.js';
+import { JobRoute } from './job.js';
+
+export class JobCancelRoute extends JobRoute {
+    async _post(): Promise<{ code: number, message: string, data?: any } | void> {
+        const job = await this.getJob();
+        if (!job) { return config.ERROR_CODES['404.0']; }
+        if (!JobPipeline.cancel(job.id)) { return config.ERROR_CODES['400.0']; }
+        return config.ERROR_CODES['200.0'];
+    }
+}
@@ -0,0 +1,25 @@
+import config from '../../config.js';
+import { DatabaseManager } from '../../database/manager.js';
+import { JobStatus } from '../../tracker.js';
+import { JobRoute } from './job.js';
+
+export class JobHistoryRoute extends JobRoute {
+    async _get(): Promise<{ code: number, message: string, data?: any } | void> {
+        const statuses = [JobStatus.COMPLETED, JobStatus.CANCELLED, JobStatus.FAILED];
+        const admin = this.isAdmin();
+        const jobs = await DatabaseManager.getJobHistory(statuses, admin ? undefined : this.ip_address, this.getIpId().id);
+
+        return { ...config.ERROR_CODES['200.0'], data: jobs.map(job => ({
+            id: job.id,
+            filename: job.filename,
+            status: job.status,
+            message: job.message || undefined,
+            error: job.error || undefined,
+            hash: job.hash || undefined,
+            duration: job.duration,
+            creation_date: job.creation_date,
+            finish_date: job.update_date,
+            ...(admin ? { ip_address: job.ip_address } : {}),
+        })) };
+    }
+}
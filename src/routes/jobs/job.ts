@@ -0,0 +1,30 @@
+import config from '../../config.js';
+import { DatabaseManager, UsageDelta } from '../../database/manager.js';
+import { JobStatus, JobTracker, TrackedJob } from '../../tracker.js';
+import { UploadRoute } from '../upload.js';
+
+export class JobRoute extends UploadRoute {
+    async _get(): Promise<{ code: number, message: string, data?: any } | void> {
+        const job = await this.getJob();
+        if (!job) { return config.ERROR_CODES['404.0']; }
+        const { ip_address, owner, ...safeJob } = job;
+        return { ...config.ERROR_CODES['200.0'], data: safeJob };
+    }
+
+    protected async getQuotaUsage(): Promise<UsageDelta | null> {
+        return null;
+    }
+
+    protected async getJob(): Promise<TrackedJob | null> {
+        const id = this.getIpId().id;
+        const job = JobTracker.getJob(id) || await this.getStoredJob(id);
+        return (job && (this.isAdmin() || JobTracker.isOwner(job, this.getSession(), this.ip_address))) ? job : null;
+    }
+
+    protected async getStoredJob(id: string): Promise<TrackedJob | null> {
+        const job = await DatabaseManager.getJob(id);
+        if (!job) { return null; }
+        const progress = (job.status === JobStatus.COMPLETED) ? 100 : 0;
+        return { id, filename: job.filename, masked: '', status: job.status as JobStatus, progress, message: job.message || undefined, error: job.error || undefined, hash: job.hash, glossary: job.glossary || undefined, ip_address: job.ip_address, owner: job.owner || undefined };
+    }
+}
@@ -0,0 +1,18 @@
+import config from '../../config.js';
+import { DatabaseManager } from '../../database/manager.js';
+import { JobStatus } from '../../tracker.js';
+import { JobRoute } from './job.js';
+
+export class JobResultRoute extends JobRoute {
+    async _get(): Promise<{ code: number, message: string, data?: any } | void> {
+        const job = await this.getJob();
+        if (!job) { return config.ERROR_CODES['404.0']; }
+        if (job.status === JobStatus.FAILED) { return { ...config.ERROR_CODES['500.0'], message: job.message || config.ERROR_CODES['500.0'].message }; }
+        if (job.status !== JobStatus.COMPLETED) { return { ...config.ERROR_CODES['202.0'], data: { id: job.id, status: job.status, progress: job.progress } }; }
+
+        const glossary = job.glossary ? await DatabaseManager.getGlossaryRun(job.glossary) : await DatabaseManager.getFileGlossary(job.hash as string);
+        if (!glossary) { return config.ERROR_CODES['404.0']; }
+        const { implementation, debug_info, ...safeGlossary } = glossary;
+        return { ...config.ERROR_CODES['200.0'], data: { ...safeGlossary, hash: job.hash } };
+    }
+}
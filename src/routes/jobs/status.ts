@@ -4,6 +4,7 @@ import { UploadRoute } from '../upload.js';
 
 export class JobsStatusRoute extends UploadRoute {
     async _get(): Promise<{ code: number, message: string, data?: any } | void> {
-        return { ...config.ERROR_CODES['200.0'], data: JobTracker.getJobs() };
+        if (this.isAdmin()) { return { ...config.ERROR_CODES['200.0'], data: JobTracker.getAllJobs() }; }
+        return { ...config.ERROR_CODES['200.0'], data: JobTracker.getJobs(this.getIpId().id, this.ip_address) };
     }
 }
\ No newline at end of file
@@ -5,83 +5,138 @@ import { Utils } from '../utils.js';
 import { Readable } from 'stream';
 import { DefaultRoute } from './default.js';
 import { isSupported, ValidationType } from '../supported.js';
-import { ContentWorker, CWT_TEXT_GLOSSARY, WMT_EXTRACT_PROGRESS, WMT_GLOSSARY_CHUNK, WMT_GLOSSARY_PROGRESS } from '../worker.js';
-import { DatabaseManager } from '../database/manager.js'
-import { GlossaryReport } from '../glossary/glossary.js';;
+import { DatabaseManager, UsageDelta } from '../database/manager.js'
+import { GlossaryGenerator, GlossaryOptions, GlossaryReport } from '../glossary/glossary.js';
+import { GlossaryFactory, GlossaryGeneratorType } from '../glossary/factory.js';
 import { JobStatus, JobTracker, QueueTracker } from '../tracker.js';
 import { StreamPiper } from '../piper.js';
+import { JobPipeline, UploadedFile, UploadResult } from '../pipeline.js';
 
 export class UploadRoute extends DefaultRoute {
     async _post(): Promise<{ code: number, message: string, data?: any } | void> {
-
         var { id: socketId } = this.getIpId();
-        let position: string | null = QueueTracker.enqueue(socketId);
-        if (!position) { return config.ERROR_CODES['400.4']; }
+        if (socketId && !QueueTracker.hasSocket(socketId)) { return config.ERROR_CODES['400.4']; }
+        const selection = this.parseGenerator(this.req.query);
+        if (!selection) { return config.ERROR_CODES['400.5']; }
+
+        if (!this.req.busboy) { return config.ERROR_CODES['400.0']; }
+        const { uploads, aborted, timedOut } = await this.receiveFiles();
+        let cleanup = (file?: UploadedFile) => { if (!file) { return; } JobTracker.removeJob(file.jobId); fsp.unlink(file.filePath).catch(() => {}); }
+
+        if (aborted) { uploads.forEach(upload => cleanup(upload.file)); return config.ERROR_CODES['444.0']; }
+        if (timedOut) { uploads.forEach(upload => cleanup(upload.file)); return config.ERROR_CODES['408.0']; }
+        if (uploads.length === 0) { return config.ERROR_CODES['400.0']; }
+
+        const usage = { uploads: 0, bytes: 0 };
+        for (const upload of uploads) {
+            if (!upload.file) { continue; }
+            if (JobPipeline.isFull(this.ip_address)) { Object.assign(upload.result, config.ERROR_CODES['429.0']); cleanup(upload.file); continue; }
+            const size = (await fsp.stat(upload.file.filePath)).size;
+            if (await DatabaseManager.checkDailyQuota(this.ip_address, { uploads: usage.uploads + 1, bytes: usage.bytes + size })) { Object.assign(upload.result, config.ERROR_CODES['429.2']); cleanup(upload.file); continue; }
+            Object.assign(usage, { uploads: usage.uploads + 1, bytes: usage.bytes + size });
+            const jobId = JobPipeline.submit({ ...upload.file, ...selection }, this.ip_address, socketId);
+            upload.result = { ...config.ERROR_CODES['202.0'], filename: upload.file.filename, jobId };
+        }
+
+        const results = uploads.map(upload => upload.result);
+        const accepted = results.some(result => result.jobId);
+        if (!this.req.query?.wait) { return { ...config.ERROR_CODES[accepted ? '202.0' : '200.0'], data: { files: results } }; }
 
-        let dequeue = () => QueueTracker.dequeue(position);
-        this.req.on('close', dequeue);
         let interval = setInterval(() => this.heartbeat(), 500);
-
-        if (config.DEBUG) { console.log(`[DEBUG] QUEUE WAITING 1 -> QueueTracker.inqueue(${position}): ${QueueTracker.inqueue(position)}`); }
-        let queue_success = await QueueTracker.wait(position);
-        this.req.off('close', dequeue);
+        for (const upload of uploads) { if (upload.result.jobId) { upload.result = await JobPipeline.waitResult(upload.result.jobId) || upload.result; } }
         clearInterval(interval);
-        if (config.DEBUG) { console.log(`[DEBUG] QUEUE WAITING 2 -> QueueTracker.inqueue(${position}): ${QueueTracker.inqueue(position)}, queue_success: ${queue_success}`); }
-        if (!queue_success) { return config.ERROR_CODES['444.0']; };
+        return await this.createResponse(uploads.map(upload => upload.result));
+    }
 
+    protected parseGenerator(input: any): { generator?: GlossaryGeneratorType, options: GlossaryOptions } | null {
+        const { generator, temperature, context, prompt, ocr } = input || {};
+        if ((generator !== undefined) && !GlossaryFactory.isAllowedGenerator(generator)) { return null; }
+        const options = GlossaryFactory.parseOptions({ temperature, context, prompt, ocr });
+        return options ? { generator, options } : null;
+    }
 
-        if (!this.req.busboy) { dequeue(); return config.ERROR_CODES['400.0']; }
+    protected async getQuotaUsage(): Promise<UsageDelta | null> {
+        if (this.req.method !== 'POST') { return null; }
+        return { uploads: 1, bytes: Number(this.req.headers['content-length']) || 0 };
+    }
 
-        this.req.pipe(this.req.busboy);
+    protected async createResponse(results: UploadResult[]): Promise<{ code: number, message: string, data?: any }> {
+        const reports = await Promise.all(results.filter(result => result.hash).map(result => result.glossary ? DatabaseManager.getGlossaryRun(result.glossary) : DatabaseManager.getFileGlossary(result.hash as string)));
+        const glossaries = [...new Map((reports.filter(glossary => glossary) as GlossaryReport[]).map(glossary => [glossary.uid, glossary])).values()];
+        if (glossaries.length === 0) { return { ...config.ERROR_CODES['200.0'], data: { files: results, glossary: null } }; }
 
-        var { file_stream, file_info } = await new Promise<{ file_stream: Readable | null, file_info: any }>(resolve => {
-            this.req.busboy.once('file', (_: any, file_stream: Readable, file_info: any) => resolve({ file_stream, file_info }));
-            this.req.busboy.once('finish', () => resolve({ file_stream: null, file_info: null }));
-        });
+        const { implementation, debug_info, ...glossary } = GlossaryGenerator.mergeReports(glossaries);
+        return { ...config.ERROR_CODES['200.0'], data: { files: results, glossary } };
+    }
 
-        if (!file_stream || !file_info) { dequeue(); return config.ERROR_CODES['400.0']; }
+    protected async receiveFiles(): Promise<{ uploads: { file?: UploadedFile, result: UploadResult }[], aborted: boolean, timedOut: boolean }> {
+        const uploads: { file?: UploadedFile, result: UploadResult }[] = [];
+        const pipers: StreamPiper[] = [];
+        const pending: Promise<void>[] = [];
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), config.STAGE_TIMEOUTS.UPLOAD);
+        let contentLength = Number(this.req.headers['content-length']) || 0;
+        let aborted = false;
+
+        this.req.busboy.on('file', (_: any, file_stream: Readable, file_info: any) => {
+            if (controller.signal.aborted) { return file_stream.resume(); }
+            const filename = Buffer.from(file_info.filename || '', 'latin1').toString('utf8');
+            const piper = new StreamPiper(file_stream, Math.max(1, contentLength - 1024*20));
+            const upload = { result: { filename } as UploadResult } as { file?: UploadedFile, result: UploadResult };
+            uploads.push(upload);
+            pipers.push(piper);
+
+            pending.push((async () => {
+                const { file, error } = await this.receiveFile(filename, file_info.mimeType, piper, file_stream, controller.signal);
+                contentLength -= piper.getReceived();
+                if (file) { upload.file = file; } else { Object.assign(upload.result, error); }
+                if (error?.code === 444) { aborted = true; }
+            })());
+        });
 
-        let filename = Buffer.from(file_info.filename, 'latin1').toString('utf8');
+        this.req.pipe(this.req.busboy);
 
-        let fileSize = Math.max(1, (Number(this.req.headers['content-length']) - 1024*20) || 0);
+        await new Promise(resolve => {
+            this.req.busboy.once('finish', resolve);
+            controller.signal.addEventListener('abort', () => { pipers.forEach(piper => piper.destroy()); resolve(null); });
+            this.req.once('close', () => {
+                if (this.req.complete) { return; }
+                console.debug(`[DEBUG] FILE UPLOAD 0 -> REQ CLOSED`);
+                pipers.forEach(piper => piper.destroy());
+                resolve(null);
+            });
+        });
 
-        if (!filename || !Utils.between(filename.length, 1, config.MAX_FILENAME_LENGTH)) { dequeue(); return config.ERROR_CODES['400.2']; }
+        clearTimeout(timeout);
+        await Promise.all(pending);
+        return { uploads, aborted, timedOut: controller.signal.aborted };
+    }
 
-        const piper = new StreamPiper(file_stream, fileSize);
-        this.req.once('close', () => { console.debug(`[DEBUG] FILE UPLOAD 0 -> REQ CLOSED`); piper.destroy(); });
+    protected async receiveFile(filename: string, mimeType: string, piper: StreamPiper, file_stream: Readable, signal: AbortSignal): Promise<{ file?: UploadedFile, error?: { code: number, message: string } }> {
+        if (!filename || !Utils.between(filename.length, 1, config.MAX_FILENAME_LENGTH)) { await piper.getHash(); }
+        if (!filename || !Utils.between(filename.length, 1, config.MAX_FILENAME_LENGTH)) { return { error: config.ERROR_CODES['400.2'] }; }
 
-        const [supportStatus] = isSupported(filename, fileSize, await piper.getHeader());
-        if (config.DEBUG) { console.log(`[DEBUG] FILE UPLOAD 1 -> supportStatus: ${supportStatus}, filename: ${filename}, fileSize: ${fileSize}, header: (${(await piper.getHeader()).subarray(0, 16).toString('ascii').replace(/[^\x20-\x7E]/g, '')})`); }
-        if (supportStatus !== ValidationType.IS_SUPPORTED) { piper.destroy(); }
-        if (supportStatus !== ValidationType.IS_SUPPORTED) { dequeue(); return config.ERROR_CODES['400.3']; }
+        const header = await piper.getHeader();
+        const [supportStatus] = isSupported(filename, Math.max(1, piper.getReceived()), header);
+        if (config.DEBUG) { console.log(`[DEBUG] FILE UPLOAD 1 -> supportStatus: ${supportStatus}, filename: ${filename}, header: (${header.subarray(0, 16).toString('ascii').replace(/[^\x20-\x7E]/g, '')})`); }
+        if (supportStatus !== ValidationType.IS_SUPPORTED) { await piper.getHash(); }
+        if (supportStatus !== ValidationType.IS_SUPPORTED) { return { error: config.ERROR_CODES['400.3'] }; }
 
-        const jobId = JobTracker.addJob(filename, JobStatus.UPLOADING, piper.getProgress());
+        const jobId = JobTracker.addJob(filename, JobStatus.UPLOADING, piper.getProgress(), undefined, this.ip_address, this.getIpId().id);
         piper.on('progress', (progress) => JobTracker.updateJob(jobId, JobStatus.UPLOADING, progress));
         const tempFilePath = path.resolve(config.UPLAOD_DIRECTORY, `${Date.now()}_${Math.random()}.${path.extname(filename)}`);
-
-        let cleanup = () => { dequeue(); JobTracker.removeJob(jobId); fsp.unlink(tempFilePath).catch(() => {}); }
+        let cleanup = () => { JobTracker.removeJob(jobId); fsp.unlink(tempFilePath).catch(() => {}); }
 
         let write_success = await piper.writeFile(tempFilePath);
-        if (config.DEBUG) { console.log(`[DEBUG] FILE UPLOAD 2 -> write_success: ${write_success}, QueueTracker.inqueue(${position}): ${QueueTracker.inqueue(position)}`); }
-        if (!write_success) { cleanup(); return config.ERROR_CODES['444.0']; }
-        JobTracker.updateJob(jobId, JobStatus.UPLOADING, 100);
-        const fileHash = await piper.getHash();
-
-
-        const existingFile = await DatabaseManager.getFile(fileHash);
-        if (existingFile) { cleanup(); return { ...config.ERROR_CODES['200.0'], data: existingFile }; }
-
-        JobTracker.updateJob(jobId, JobStatus.EXTRACTING, 0);
-        const worker = new ContentWorker(tempFilePath, CWT_TEXT_GLOSSARY);
-        worker.once(WMT_GLOSSARY_CHUNK, () => JobTracker.updateJob(jobId, JobStatus.PROCESSING, 0));
-        worker.on(WMT_EXTRACT_PROGRESS, (progress: number) => JobTracker.updateJob(jobId, JobStatus.EXTRACTING, progress));
-        worker.on(WMT_GLOSSARY_PROGRESS, (progress: number) => JobTracker.updateJob(jobId, JobStatus.PROCESSING, progress));
-        const { text, glossary, error } = await worker.waitResult() as { text: string, glossary: GlossaryReport, error?: Error };
-        if (error) { cleanup(); return config.ERROR_CODES['500.0']; }
-
-        fileSize = (await fsp.stat(tempFilePath)).size;
-        const newFile = await DatabaseManager.createFile(fileHash, filename, file_info.mimeType, fileSize, text, glossary, this.ip_address);
-        cleanup();
-        return { ...config.ERROR_CODES['200.0'], data: newFile };
+        if (config.DEBUG) { console.log(`[DEBUG] FILE UPLOAD 2 -> write_success: ${write_success}, filename: ${filename}`); }
+        if (!write_success && signal.aborted) { fsp.unlink(tempFilePath).catch(() => {}); }
+        if (!write_success && signal.aborted) { JobTracker.finishJob(jobId, JobStatus.FAILED, undefined, config.ERROR_CODES['408.0'].message); return { error: config.ERROR_CODES['408.0'] }; }
+        if (!write_success) { cleanup(); return { error: config.ERROR_CODES['444.0'] }; }
+
+        const [sizeStatus] = isSupported(filename, (await fsp.stat(tempFilePath)).size, header);
+        if ((file_stream as any).truncated || (sizeStatus !== ValidationType.IS_SUPPORTED)) { cleanup(); return { error: config.ERROR_CODES['400.3'] }; }
+
+        JobTracker.updateJob(jobId, JobStatus.QUEUED, 0);
+        return { file: { jobId, filename, mimeType, filePath: tempFilePath, hash: await piper.getHash() } };
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,120 @@
+import * as fsp from 'fs/promises';
+import config from '../../config.js';
+import { Utils } from '../../utils.js';
+import { UploadRoute } from '../upload.js';
+import { isSupported, ValidationType } from '../../supported.js';
+import { JobStatus, JobTracker } from '../../tracker.js';
+import { JobPipeline } from '../../pipeline.js';
+import { ResumableUpload, ResumableUploads } from '../../resumable.js';
+import { StreamPiper } from '../../piper.js';
+import { UsageDelta } from '../../database/manager.js';
+
+export class ResumableUploadRoute extends UploadRoute {
+    async _post(): Promise<{ code: number, message: string, data?: any } | void> {
+        const { filename, filesize, mimeType, header } = this.req.body || {};
+        if (!filename || (typeof filename !== 'string') || !Utils.between(filename.length, 1, config.MAX_FILENAME_LENGTH)) { return config.ERROR_CODES['400.2']; }
+
+        const headerBuffer = Array.isArray(header) ? Buffer.from(header) : Buffer.alloc(0);
+        const [supportStatus] = isSupported(filename, (Number.isInteger(filesize) ? filesize : 0), headerBuffer);
+        if (supportStatus !== ValidationType.IS_SUPPORTED) { return config.ERROR_CODES['400.3']; }
+        if (JobPipeline.isFull(this.ip_address)) { return config.ERROR_CODES['429.0']; }
+        const selection = this.parseGenerator(this.req.body);
+        if (!selection) { return config.ERROR_CODES['400.5']; }
+
+        const upload = await ResumableUploads.create(filename, String(mimeType || ''), filesize, this.ip_address, this.getIpId().id, selection.generator, selection.options);
+        return { ...config.ERROR_CODES['200.0'], data: this.getUploadState(upload) };
+    }
+
+    protected async getQuotaUsage(): Promise<UsageDelta | null> {
+        if (this.req.method !== 'POST') { return null; }
+        return { uploads: 1, bytes: Number(this.req.body?.filesize) || 0 };
+    }
+
+    async _get(): Promise<{ code: number, message: string, data?: any } | void> {
+        const upload = ResumableUploads.get(this.getUploadId());
+        if (!upload) { return config.ERROR_CODES['404.0']; }
+        if (!this.isUploadOwner(upload)) { return config.ERROR_CODES['403.0']; }
+        return { ...config.ERROR_CODES['200.0'], data: this.getUploadState(upload) };
+    }
+
+    async _patch(): Promise<{ code: number, message: string, data?: any } | void> {
+        const upload = ResumableUploads.get(this.getUploadId());
+        if (!upload) { return config.ERROR_CODES['404.0']; }
+        if (!this.isUploadOwner(upload)) { return config.ERROR_CODES['403.0']; }
+
+        const offset = Number(this.req.headers['upload-offset']);
+        const length = Number(this.req.headers['content-length']);
+        if (!Number.isInteger(offset) || !Number.isInteger(length) || (length < 0)) { return config.ERROR_CODES['400.0']; }
+        if (offset !== upload.offset) { return { ...config.ERROR_CODES['409.0'], data: this.getUploadState(upload) }; }
+        if (offset + length > upload.size) { return config.ERROR_CODES['400.3']; }
+        if (!ResumableUploads.lock(upload.id)) { return { ...config.ERROR_CODES['409.0'], data: this.getUploadState(upload) }; }
+
+        try {
+            const error = (length > 0) ? await this.receiveChunk(upload, length) : null;
+            if (error) { return error; }
+            if ((offset === 0) && (length > 0) && !(await this.validateHeader(upload))) { ResumableUploads.remove(upload.id); return config.ERROR_CODES['400.3']; }
+            if (upload.offset < upload.size) { return { ...config.ERROR_CODES['200.0'], data: this.getUploadState(upload) }; }
+            return await this.completeUpload(upload);
+        } finally {
+            ResumableUploads.unlock(upload.id);
+        }
+    }
+
+    protected async receiveChunk(upload: ResumableUpload, length: number): Promise<{ code: number, message: string } | null> {
+        const piper = new StreamPiper(this.req, length, upload.hash.copy());
+        piper.on('progress', () => JobTracker.updateJob(upload.jobId, JobStatus.UPLOADING, ((upload.offset + piper.getReceived()) / upload.size) * 100));
+
+        let timedOut = false;
+        const abort = () => { if (!this.req.complete) { piper.destroy(); } };
+        const timeout = setTimeout(() => { timedOut = true; piper.destroy(); }, config.STAGE_TIMEOUTS.UPLOAD);
+        this.req.once('close', abort);
+        let write_success = await piper.writeFile(upload.filePath, undefined, 'a');
+        this.req.off('close', abort);
+        clearTimeout(timeout);
+
+        if (config.DEBUG) { console.log(`[DEBUG] RESUMABLE UPLOAD 1 -> write_success: ${write_success}, received: ${piper.getReceived()}/${length}, filename: ${upload.filename}`); }
+        if (!write_success || (piper.getReceived() !== length)) { await ResumableUploads.rollback(upload.id); return config.ERROR_CODES[timedOut ? '408.0' : '444.0']; }
+
+        ResumableUploads.commit(upload.id, upload.offset + length, piper.getHashState());
+        return null;
+    }
+
+    protected async completeUpload(upload: ResumableUpload): Promise<{ code: number, message: string, data?: any } | void> {
+        const header = await this.readHeader(upload.filePath);
+        const [supportStatus] = isSupported(upload.filename, (await fsp.stat(upload.filePath)).size, header);
+        if (config.DEBUG) { console.log(`[DEBUG] RESUMABLE UPLOAD 2 -> supportStatus: ${supportStatus}, filename: ${upload.filename}`); }
+        if (supportStatus !== ValidationType.IS_SUPPORTED) { ResumableUploads.remove(upload.id); return config.ERROR_CODES['400.3']; }
+
+        JobTracker.updateJob(upload.jobId, JobStatus.QUEUED, 0);
+        ResumableUploads.release(upload.id);
+        const file = { jobId: upload.jobId, filename: upload.filename, mimeType: upload.mimeType, filePath: upload.filePath, hash: upload.hash.copy().digest('hex'), generator: upload.generator, options: upload.options };
+        const jobId = JobPipeline.submit(file, this.ip_address, this.getIpId().id);
+        return { ...config.ERROR_CODES['202.0'], data: { ...this.getUploadState(upload), files: [{ ...config.ERROR_CODES['202.0'], filename: upload.filename, jobId }] } };
+    }
+
+    protected async validateHeader(upload: ResumableUpload): Promise<boolean> {
+        const [supportStatus] = isSupported(upload.filename, upload.size, await this.readHeader(upload.filePath));
+        if (config.DEBUG) { console.log(`[DEBUG] RESUMABLE UPLOAD 3 -> supportStatus: ${supportStatus}, filename: ${upload.filename}`); }
+        return (supportStatus === ValidationType.IS_SUPPORTED);
+    }
+
+    protected isUploadOwner(upload: ResumableUpload): boolean {
+        return (upload.ip_address === this.ip_address) && ((upload.owner || '') === this.getIpId().id);
+    }
+
+    protected async readHeader(filePath: string): Promise<Buffer> {
+        const handle = await fsp.open(filePath, 'r');
+        const { buffer, bytesRead } = await handle.read(Buffer.alloc(StreamPiper.HEADER_SIZE), 0, StreamPiper.HEADER_SIZE, 0);
+        await handle.close();
+        return buffer.subarray(0, bytesRead);
+    }
+
+    protected getUploadId(): string {
+        const ids = this.req.url!.match(/\b[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\b/g) || [];
+        return ids[1] || '';
+    }
+
+    protected getUploadState(upload: ResumableUpload): { id: string, offset: number, size: number } {
+        return { id: upload.id, offset: upload.offset, size: upload.size };
+    }
+}
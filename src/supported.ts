@@ -261,6 +261,8 @@ const SUPPORTED_FORMATS: Record<string, SupportedInfo> = {
     },
 };
 
+export const MAX_FILESIZE = Math.max(...Object.values(SUPPORTED_FORMATS).map(info => info.max_filesize));
+
 function bufferStartsWith(buf: Buffer, prefix: Buffer): boolean {
     if (!Buffer.isBuffer(buf) || !Buffer.isBuffer(prefix)) { throw new TypeError('Both arguments must be Buffers'); }
     if (prefix.length > buf.length) { return false; }
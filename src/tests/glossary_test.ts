@@ -0,0 +1,111 @@
+import { GlossaryEntry, GlossaryGenerator, GlossaryReport } from '../glossary/glossary.js';
+import { TextSegment } from '../processors/file_processor.js';
+
+class ChunkGlossary extends GlossaryGenerator {
+    constructor() {
+        super('test');
+    }
+}
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        throw new Error(`Assertion Failed: ${message}`);
+    }
+}
+
+function entry(term: string, definition: string, sentence: string = '', language: string = 'en'): GlossaryEntry {
+    return { uid: crypto.randomUUID(), term, definition, sentence, language, generated: false };
+}
+
+function report(entries: GlossaryEntry[], domain: string = '', implementation: string = 'test', time: number = 0): GlossaryReport {
+    return { uid: crypto.randomUUID(), domain, language: 'en', implementation, timestamp_start: time, timestamp_end: time + 10, error_count: 1, glossary: entries };
+}
+
+async function testChunkReports() {
+    console.log(`\n--- Chunk Reports ---`);
+    const chunks = [
+        report([entry(' API ', 'Application programming interface. '), entry('Cache', 'Fast storage.')]),
+        report([entry('api', 'Interface between programs.'), entry('Queue', 'Ordered list of jobs.')]),
+    ];
+
+    const merged = new ChunkGlossary().exportReport(chunks, 0);
+    const terms = merged.glossary.map(entry => entry.term);
+    console.log(`[*] Terms: ${terms.join(', ')}`);
+    assert(merged.glossary.length === 3, `Expected 3 unique terms, got ${merged.glossary.length}`);
+    assert(terms.join(',') === 'api,Cache,Queue', `Expected first occurrence order with trimmed terms, got ${terms.join(',')}`);
+    assert(merged.glossary[0].definition === 'Interface between programs.', 'Later chunk must replace the duplicate definition');
+    assert(new Set(merged.glossary.map(entry => entry.uid)).size === 3, 'Merged entries must get new unique ids');
+
+    const all = new ChunkGlossary().exportReport(chunks, 0, undefined, false);
+    assert(all.glossary.length === 4, `Expected 4 terms without deduplication, got ${all.glossary.length}`);
+    console.log("[+] Duplicate terms across chunks are merged case-insensitively.");
+}
+
+async function testMergeReports() {
+    console.log(`\n--- Merge Reports ---`);
+    const reports = [
+        report([entry('Token', 'Unit of text.', '', 'en'), entry('Model', 'Trained network.', '', 'en')], 'AI', 'lmstudio', 100),
+        report([entry('TOKEN', 'Vienība.', '', 'lv'), entry('Prompt', 'Input text.', '', 'en')], 'AI', 'openai', 50),
+        report([], '', 'lmstudio', 300),
+    ];
+
+    const merged = GlossaryGenerator.mergeReports(reports);
+    console.log(`[*] Terms: ${merged.glossary.map(entry => entry.term).join(', ')}`);
+    assert(merged.glossary.length === 3, `Expected 3 unique terms, got ${merged.glossary.length}`);
+    assert(merged.glossary[0].definition === 'Vienība.', 'Later report must replace the duplicate definition');
+    assert(merged.domain === 'AI', `Expected domain AI, got ${merged.domain}`);
+    assert(merged.implementation === 'lmstudio; openai', `Expected unique implementations, got ${merged.implementation}`);
+    assert((merged.timestamp_start === 50) && (merged.timestamp_end === 310), `Expected time span 50-310, got ${merged.timestamp_start}-${merged.timestamp_end}`);
+    assert(merged.error_count === 3, `Expected summed error count 3, got ${merged.error_count}`);
+    assert(merged.language === 'en', `Expected most common language en, got ${merged.language}`);
+    assert(GlossaryGenerator.mergeReports(reports, false).glossary.length === 4, 'Expected all terms without deduplication');
+    console.log("[+] Reports are merged with duplicate terms removed.");
+}
+
+async function testAttachSources() {
+    console.log(`\n--- Attach Sources ---`);
+    const segments: TextSegment[] = [
+        { text: 'Introduction to queues.', location: { page: 1 } },
+        { text: 'A Semaphore limits how many jobs run at once.', location: { page: 2 } },
+        { text: 'The semaphore is released when a job ends.', location: { page: 3 } },
+        { text: 'Workers read from the queue.', location: { start: 12.5, end: 17 } },
+    ];
+
+    const glossary = report([
+        entry('Semaphore', 'Counter that limits concurrency.', 'the semaphore is released when a job ends.'),
+        entry('semaphore', 'Counter that limits concurrency.'),
+        entry('Workers', 'Threads that process jobs.'),
+        entry('Condition', 'Wait primitive.', 'Not in the source text.'),
+    ]);
+
+    GlossaryGenerator.attachSources(glossary, segments);
+    const [sentence, term, offset, missing] = glossary.glossary;
+    console.log(`[*] Sources: ${glossary.glossary.map(entry => JSON.stringify(entry.source)).join(', ')}`);
+    assert(sentence.source?.page === 3, 'Entry must be located by its sentence before its term');
+    assert(term.source?.page === 2, 'Entry without a sentence must be located by the first segment containing its term');
+    assert((offset.source?.start === 12.5) && (offset.source?.end === 17), 'Start and end offsets must be copied from the segment');
+    assert(missing.source === undefined, 'Entry not found in any segment must not get a source');
+
+    const unlocated = report([entry('Queue', 'Ordered list.')]);
+    GlossaryGenerator.attachSources(unlocated, [{ text: 'A queue of jobs.' }]);
+    assert(unlocated.glossary[0].source === undefined, 'Segments without a location must not produce sources');
+    console.log("[+] Glossary entries point at the segment they were found in.");
+}
+
+export async function runGlossaryTest() {
+    try {
+        await testChunkReports();
+        await testMergeReports();
+        await testAttachSources();
+        console.log('\nAll test scenarios passed successfully!');
+    } catch (error) {
+        console.error('\n[!] A test scenario failed!');
+        console.error(error);
+        process.exit(1);
+    }
+};
+
+(async () => {
+    await runGlossaryTest();
+    process.exit(0);
+})();
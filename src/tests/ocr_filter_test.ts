@@ -0,0 +1,141 @@
+import config from '../config.js';
+import '../supported.js';
+import { ImageProcessor, OcrResult } from '../processors/image_processor.js';
+import { PdfProcessor } from '../processors/pdf_processor.js';
+
+type WordSpec = [string, number];
+type LineSpec = { confidence: number, words: WordSpec[] };
+type BlockSpec = { confidence: number, paragraphs: LineSpec[][] };
+
+class FilterImageProcessor extends ImageProcessor {
+    constructor() {
+        super(Buffer.alloc(1));
+    }
+
+    public filter(page: Tesseract.Page): OcrResult {
+        return this.filterText(page);
+    }
+}
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        throw new Error(`Assertion Failed: ${message}`);
+    }
+}
+
+function line(confidence: number, ...words: WordSpec[]): LineSpec {
+    return { confidence, words };
+}
+
+function page(confidence: number, blocks: BlockSpec[] | null, text: string = ''): Tesseract.Page {
+    return {
+        confidence, text,
+        blocks: blocks && blocks.map(block => ({
+            confidence: block.confidence,
+            paragraphs: block.paragraphs.map(lines => ({
+                lines: lines.map(line => ({ confidence: line.confidence, words: line.words.map(([text, confidence]) => ({ text, confidence })) })),
+            })),
+        })),
+    } as unknown as Tesseract.Page;
+}
+
+async function testWordConfidence() {
+    console.log(`\n--- Word Confidence ---`);
+    const { WORD_CONFIDENCE } = config.OCR_FILTER;
+    const result = new FilterImageProcessor().filter(page(90, [{ confidence: 90, paragraphs: [[
+        line(90, ['Workers', 95], ['read', WORD_CONFIDENCE], ['the', 90], ['queue', 88], ['x7', WORD_CONFIDENCE - 1], ['~~', 99]),
+    ]] }]));
+
+    console.log(`[*] Text: "${result.text}", stats: ${JSON.stringify(result.stats)}`);
+    assert(result.text === 'Workers read the queue', `Expected low confidence and symbol-only words to be dropped, got "${result.text}"`);
+    assert((result.stats.words === 6) && (result.stats.dropped === 2) && (result.stats.excluded === 0), `Unexpected stats ${JSON.stringify(result.stats)}`);
+    assert(result.stats.confidence_total === 95 + WORD_CONFIDENCE + 90 + 88 + WORD_CONFIDENCE - 1 + 99, 'Confidence total must include every word');
+    console.log("[+] Words below the threshold and without letters or digits are dropped.");
+}
+
+async function testLineAndBlockConfidence() {
+    console.log(`\n--- Line and Block Confidence ---`);
+    const { LINE_CONFIDENCE, BLOCK_CONFIDENCE } = config.OCR_FILTER;
+    const result = new FilterImageProcessor().filter(page(80, [
+        { confidence: 90, paragraphs: [
+            [line(LINE_CONFIDENCE, ['First', 90], ['line', 90]), line(LINE_CONFIDENCE - 1, ['Noisy', 90], ['line', 90])],
+            [line(90, ['Second', 90], ['paragraph', 90])],
+        ] },
+        { confidence: BLOCK_CONFIDENCE - 1, paragraphs: [[line(90, ['Dropped', 90], ['block', 90])]] },
+        { confidence: BLOCK_CONFIDENCE, paragraphs: [[line(90, ['Kept', 90], ['block', 90])]] },
+    ]));
+
+    console.log(`[*] Text: ${JSON.stringify(result.text)}`);
+    assert(result.text === 'First line\nSecond paragraph\n\nKept block', `Unexpected text ${JSON.stringify(result.text)}`);
+    assert((result.stats.words === 10) && (result.stats.dropped === 4), `Dropped lines and blocks must count as dropped words, got ${JSON.stringify(result.stats)}`);
+    console.log("[+] Lines and blocks below their thresholds are dropped.");
+}
+
+async function testImageExclusion() {
+    console.log(`\n--- Image Exclusion ---`);
+    const { MIN_IMAGE_CONFIDENCE, MAX_GARBAGE_RATIO } = config.OCR_FILTER;
+    const processor = new FilterImageProcessor();
+
+    const lowConfidence = processor.filter(page(MIN_IMAGE_CONFIDENCE - 1, [{ confidence: 90, paragraphs: [[line(90, ['Readable', 90], ['words', 90])]] }]));
+    assert((lowConfidence.text === '') && (lowConfidence.stats.excluded === 1) && (lowConfidence.stats.dropped === 2), `Low confidence image must be excluded, got ${JSON.stringify(lowConfidence)}`);
+
+    const words: WordSpec[] = Array.from({ length: 10 }, (_, i) => [`word${i}`, (i < Math.floor(MAX_GARBAGE_RATIO * 10) + 1) ? 0 : 90]);
+    const garbage = processor.filter(page(90, [{ confidence: 90, paragraphs: [[line(90, ...words)]] }]));
+    assert((garbage.text === '') && (garbage.stats.excluded === 1) && (garbage.stats.dropped === 10), `Mostly garbage image must be excluded, got ${JSON.stringify(garbage)}`);
+
+    const exclude = config.OCR_FILTER.EXCLUDE_LOW_QUALITY;
+    config.OCR_FILTER.EXCLUDE_LOW_QUALITY = false;
+    const kept = processor.filter(page(MIN_IMAGE_CONFIDENCE - 1, [{ confidence: 90, paragraphs: [[line(90, ['Readable', 90], ['words', 90])]] }]));
+    config.OCR_FILTER.EXCLUDE_LOW_QUALITY = exclude;
+    assert((kept.text === 'Readable words') && (kept.stats.excluded === 0), `Image must be kept when exclusion is disabled, got ${JSON.stringify(kept)}`);
+
+    const plain = processor.filter(page(90, null, 'Plain text'));
+    assert(plain.text === 'Plain text', 'Pages without blocks must fall back to the plain text');
+    console.log("[+] Low quality images are excluded as a whole.");
+}
+
+async function testNeedsOcr() {
+    console.log(`\n--- PDF Needs OCR ---`);
+    const { MIN_TEXT_LENGTH, MAX_GARBAGE_RATIO } = config.PDF_OCR;
+    const letters = (count: number) => 'a'.repeat(count);
+    const broken = (count: number) => '\uFFFD'.repeat(count);
+    const cases: [string, string, boolean][] = [
+        ['empty page', '', true],
+        ['whitespace only', ' \n\t '.repeat(10), true],
+        ['short text', letters(MIN_TEXT_LENGTH - 1), true],
+        ['short text with spaces', `${letters(MIN_TEXT_LENGTH - 1)}${' '.repeat(10)}`, true],
+        ['enough text', letters(MIN_TEXT_LENGTH), false],
+        ['regular sentence', 'Glossary terms are extracted from every page.', false],
+        ['latvian and cyrillic', 'Vārdnīca un термины из документа.', false],
+        ['garbage at the limit', `${letters(20 - MAX_GARBAGE_RATIO * 20)}${broken(MAX_GARBAGE_RATIO * 20)}`, false],
+        ['garbage above the limit', `${letters(20 - MAX_GARBAGE_RATIO * 20 - 1)}${broken(MAX_GARBAGE_RATIO * 20 + 1)}`, true],
+        ['control characters', `${letters(10)}${'\u0001\u0002'.repeat(5)}`, true],
+    ];
+
+    for (const [name, text, expected] of cases) {
+        const result = PdfProcessor.needsOcr(text);
+        console.log(`[*] ${name} -> ${result}`);
+        assert(result === expected, `Expected needsOcr(${name}) to be ${expected}, got ${result}`);
+    }
+
+    console.log("[+] Pages without a usable text layer are sent to OCR.");
+}
+
+export async function runOcrFilterTest() {
+    try {
+        await testWordConfidence();
+        await testLineAndBlockConfidence();
+        await testImageExclusion();
+        await testNeedsOcr();
+        console.log('\nAll test scenarios passed successfully!');
+    } catch (error) {
+        console.error('\n[!] A test scenario failed!');
+        console.error(error);
+        process.exit(1);
+    }
+};
+
+(async () => {
+    await runOcrFilterTest();
+    process.exit(0);
+})();
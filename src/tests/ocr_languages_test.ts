@@ -0,0 +1,91 @@
+import config from '../config.js';
+import '../supported.js';
+import { ImageProcessor } from '../processors/image_processor.js';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        throw new Error(`Assertion Failed: ${message}`);
+    }
+}
+
+function same(actual: any, expected: any): boolean {
+    return JSON.stringify(actual) === JSON.stringify(expected);
+}
+
+async function testValidLanguages() {
+    console.log(`\n--- Valid Languages ---`);
+    const cases: [any, string[] | 'auto'][] = [
+        ['auto', 'auto'],
+        ['eng', ['eng']],
+        ['eng+lav', ['eng', 'lav']],
+        [' ENG, Lav ', ['eng', 'lav']],
+        [['rus', 'ukr'], ['rus', 'ukr']],
+    ];
+
+    for (const [input, expected] of cases) {
+        const languages = ImageProcessor.parseLanguages(input);
+        console.log(`[*] ${JSON.stringify(input)} -> ${JSON.stringify(languages)}`);
+        assert(same(languages, expected), `Expected ${JSON.stringify(expected)} for ${JSON.stringify(input)}, got ${JSON.stringify(languages)}`);
+    }
+
+    console.log("[+] Valid language strings are normalized.");
+}
+
+async function testDuplicateLanguages() {
+    console.log(`\n--- Duplicate Languages ---`);
+    const languages = ImageProcessor.parseLanguages('eng+eng+lav');
+    assert(same(languages, ['eng', 'lav']), `Expected duplicates to be removed, got ${JSON.stringify(languages)}`);
+
+    const repeated = Array(config.OCR_LANGUAGES.MAX_SELECTED + 1).fill('eng').join('+');
+    assert(same(ImageProcessor.parseLanguages(repeated), ['eng']), 'Duplicates must not count towards the selection limit');
+    assert(same(ImageProcessor.parseLanguages(['lav', 'LAV', 'eng']), ['lav', 'eng']), 'Duplicates must be removed case-insensitively in input order');
+    console.log("[+] Duplicate languages are removed.");
+}
+
+async function testInvalidLanguages() {
+    console.log(`\n--- Invalid Languages ---`);
+    const tooMany = config.OCR_LANGUAGES.ALLOWED.slice(0, config.OCR_LANGUAGES.MAX_SELECTED + 1).join('+');
+    const cases: any[] = ['', '   ', undefined, null, 'xyz', 'eng+xyz', 'AUTO', ['auto'], 'auto+eng', 42, tooMany];
+
+    for (const input of cases) {
+        const languages = ImageProcessor.parseLanguages(input);
+        console.log(`[*] ${JSON.stringify(input)} -> ${JSON.stringify(languages)}`);
+        assert(languages === null, `Expected ${JSON.stringify(input)} to be rejected, got ${JSON.stringify(languages)}`);
+    }
+
+    console.log("[+] Invalid language strings are rejected.");
+}
+
+async function testScriptLanguages() {
+    console.log(`\n--- Script Languages ---`);
+    assert(same(ImageProcessor.getScriptLanguages('Latin'), config.OCR_LANGUAGES.SCRIPTS.Latin), 'Latin script must map to Latin languages');
+    assert(same(ImageProcessor.getScriptLanguages('Cyrillic'), config.OCR_LANGUAGES.SCRIPTS.Cyrillic), 'Cyrillic script must map to Cyrillic languages');
+    assert(same(ImageProcessor.getScriptLanguages('Han'), config.OCR_LANGUAGES.DEFAULT), 'Unknown script must fall back to default languages');
+    assert(same(ImageProcessor.getScriptLanguages(undefined), config.OCR_LANGUAGES.DEFAULT), 'Failed detection must fall back to default languages');
+
+    for (const [script, languages] of Object.entries(config.OCR_LANGUAGES.SCRIPTS)) {
+        console.log(`[*] ${script} -> ${languages.join('+')}`);
+        assert(same(ImageProcessor.parseLanguages(languages), languages), `Languages for ${script} must be allowed and within the selection limit`);
+    }
+
+    console.log("[+] Detected scripts map to allowed languages.");
+}
+
+export async function runOcrLanguagesTest() {
+    try {
+        await testValidLanguages();
+        await testDuplicateLanguages();
+        await testInvalidLanguages();
+        await testScriptLanguages();
+        console.log('\nAll test scenarios passed successfully!');
+    } catch (error) {
+        console.error('\n[!] A test scenario failed!');
+        console.error(error);
+        process.exit(1);
+    }
+};
+
+(async () => {
+    await runOcrLanguagesTest();
+    process.exit(0);
+})();
@@ -0,0 +1,82 @@
+import * as path from 'path';
+import { ImageLike } from 'tesseract.js';
+import { fileURLToPath } from 'url';
+import config from '../config.js';
+import '../supported.js';
+import { ImageProcessor, OcrResult } from '../processors/image_processor.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const FIXTURE = path.join(__dirname, '../..', 'src', 'tests', 'fixtures', 'ocr_sample.png');
+
+class RecordingImageProcessor extends ImageProcessor {
+    public pages: Tesseract.Page[] = [];
+    private penalized?: number;
+
+    constructor(source: string, penalized?: number) {
+        super(source);
+        this.penalized = penalized;
+    }
+
+    protected async recognize(worker: Tesseract.Worker, source: ImageLike, pass: number, passes: number): Promise<Tesseract.Page> {
+        const page = await super.recognize(worker, source, pass, passes);
+        this.pages.push((pass === this.penalized) ? { ...page, confidence: 0 } : page);
+        return this.pages[this.pages.length - 1];
+    }
+
+    public async run(): Promise<string | null> {
+        return await this.extractImplementation();
+    }
+
+    public expected(page: Tesseract.Page): OcrResult {
+        return this.filterText(page);
+    }
+}
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        throw new Error(`Assertion Failed: ${message}`);
+    }
+}
+
+async function runCase(name: string, penalized: number | undefined, expected?: number) {
+    console.log(`\n--- ${name} ---`);
+    const processor = new RecordingImageProcessor(FIXTURE, penalized);
+    processor.setLanguages(['eng']);
+    const text = await processor.run();
+    const [processed, raw] = processor.pages;
+
+    console.log(`[*] Confidence processed: ${processed?.confidence}, raw: ${raw?.confidence}`);
+    assert(processor.pages.length === 2, `Expected processed and raw passes, got ${processor.pages.length}`);
+    const best = (processed.confidence >= raw.confidence) ? processed : raw;
+    if (expected !== undefined) { assert(best === processor.pages[expected], `Expected pass ${expected} to be the more confident one`); }
+    assert(text === processor.expected(best).text, `Expected text of the more confident pass, got "${text}"`);
+    assert(JSON.stringify(processor.getOcrStats()) === JSON.stringify(processor.expected(best).stats), 'OCR stats must describe the kept pass');
+    console.log(`[+] Kept ${(best === processed) ? 'processed' : 'raw'} result: "${text?.replace(/\n/g, ' ')}"`);
+}
+
+export async function runOcrPreprocessTest() {
+    const settings = { ...config.OCR_PREPROCESS };
+    const cache = config.OCR_CACHE.ENABLED;
+
+    try {
+        Object.assign(config.OCR_PREPROCESS, { ENABLED: true, COMPARE_RAW: true });
+        config.OCR_CACHE.ENABLED = false;
+        await runCase('Fixture', undefined);
+        await runCase('Processed Wins', 1, 0);
+        await runCase('Raw Wins', 0, 1);
+        console.log('\nAll test scenarios passed successfully!');
+    } catch (error) {
+        console.error('\n[!] A test scenario failed!');
+        console.error(error);
+        process.exit(1);
+    } finally {
+        Object.assign(config.OCR_PREPROCESS, settings);
+        config.OCR_CACHE.ENABLED = cache;
+    }
+};
+
+(async () => {
+    await runOcrPreprocessTest();
+    process.exit(0);
+})();
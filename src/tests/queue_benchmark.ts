@@ -0,0 +1,97 @@
+import { QueueState, QueueTracker } from '../tracker.js';
+
+const JOBS = 100;
+const IDLE_DURATION = 2000;
+const JOB_DURATION = 5;
+const MAX_IDLE_CPU = 5;
+const MAX_UPDATE_LATENCY = 50;
+
+type StubSocket = { socketId: string, updates: { time: number, state: QueueState }[], emit: (event: string, state: QueueState) => void };
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        throw new Error(`Assertion Failed: ${message}`);
+    }
+}
+
+function createSocket(index: number): StubSocket {
+    const socket: StubSocket = { socketId: `socket-${index}`, updates: [], emit: () => {} };
+    socket.emit = (event, state) => { if (event === 'queue-update') { socket.updates.push({ time: Date.now(), state }); } };
+    return socket;
+}
+
+async function measureCpu(): Promise<number> {
+    const usage = process.cpuUsage();
+    const time = Date.now();
+    await new Promise(resolve => setTimeout(resolve, IDLE_DURATION));
+    const cpu = process.cpuUsage(usage);
+    return ((cpu.user + cpu.system) / 1000) / (Date.now() - time) * 100;
+}
+
+async function stubWorker(position: string, gate: Promise<void>): Promise<number> {
+    await QueueTracker.wait(position);
+    await gate;
+    await new Promise(resolve => setTimeout(resolve, JOB_DURATION));
+    const time = Date.now();
+    QueueTracker.dequeue(position);
+    return time;
+}
+
+export async function runQueueBenchmark() {
+    const sockets = Array.from({ length: JOBS }, (_, i) => createSocket(i));
+    QueueTracker.setIoServer({ sockets: { sockets: new Map(sockets.map(socket => [socket.socketId, socket])) } } as any);
+    const limit = QueueTracker.max();
+    const baseline = await measureCpu();
+
+    console.log(`\n--- Enqueue ${JOBS} jobs ---`);
+    let open = () => {};
+    const gate = new Promise<void>(resolve => open = resolve);
+    let time = Date.now();
+    const positions = sockets.map(socket => QueueTracker.enqueue({ socketId: socket.socketId, client: socket.socketId }) as string);
+    const workers = positions.map(position => stubWorker(position, gate));
+    console.log(`[*] Enqueued ${JOBS} jobs in ${Date.now() - time}ms, active: ${limit}, waiting: ${JOBS - limit}`);
+
+    assert(positions.every(position => position), 'Every job must be accepted');
+    sockets.forEach((socket, i) => {
+        const expected = Math.max(0, i - limit + 1);
+        assert(socket.updates.length > 0, `Socket ${i} must receive a queue update`);
+        assert(socket.updates[0].state.waitingPosition === expected, `Socket ${i} must start at waiting position ${expected}, got ${socket.updates[0].state.waitingPosition}`);
+    });
+    console.log("[+] Every socket received its initial queue position.");
+
+    console.log(`\n--- Idle CPU usage ---`);
+    await new Promise(resolve => setTimeout(resolve, IDLE_DURATION));
+    const percent = await measureCpu();
+    console.log(`[*] ${JOBS} waiting jobs, CPU: ${percent.toFixed(2)}%, empty queue: ${baseline.toFixed(2)}%`);
+    assert(percent - baseline < MAX_IDLE_CPU, `Waiting jobs must add less than ${MAX_IDLE_CPU}% CPU, got ${(percent - baseline).toFixed(2)}%`);
+    console.log("[+] Waiting jobs do not poll.");
+
+    console.log(`\n--- Drain queue ---`);
+    sockets.forEach(socket => socket.updates = []);
+    time = Date.now();
+    open();
+    const finished = await Promise.all(workers);
+    console.log(`[*] Drained ${JOBS} jobs in ${Date.now() - time}ms`);
+    assert(QueueTracker.size() === 0, `Queue must be empty, got ${QueueTracker.size()}`);
+
+    let latency = 0;
+    sockets.forEach((socket, i) => {
+        const waiting = socket.updates.map(update => update.state.waitingPosition || 0);
+        assert(waiting.every((position, j) => (j === 0) || (position <= waiting[j - 1])), `Socket ${i} waiting position must never increase`);
+        assert((i < limit) || waiting.includes(0), `Socket ${i} must reach the front of the queue`);
+
+        for (const update of socket.updates) {
+            const previous = finished.filter(finish => finish <= update.time).sort((a, b) => b - a)[0];
+            if (previous !== undefined) { latency = Math.max(latency, update.time - previous); }
+        }
+    });
+
+    console.log(`[*] Max queue update latency: ${latency}ms`);
+    assert(latency < MAX_UPDATE_LATENCY, `Queue updates must arrive within ${MAX_UPDATE_LATENCY}ms, got ${latency}ms`);
+    console.log("[+] Queue positions only move forward and are pushed right after each job finishes.");
+}
+
+(async () => {
+    await runQueueBenchmark();
+    process.exit(0);
+})();
@@ -0,0 +1,110 @@
+import { OrderedQueue } from '../queue.js';
+
+function assert(condition: boolean, message: string) {
+    if (!condition) {
+        throw new Error(`Assertion Failed: ${message}`);
+    }
+}
+
+function clientsOf(queue: OrderedQueue, ids: Map<string, string>): string[] {
+    return queue.getQueue().map(id => ids.get(id) as string);
+}
+
+async function testFairness() {
+    console.log(`\n--- Fairness ---`);
+    const queue = new OrderedQueue(1);
+    const ids = new Map<string, string>();
+
+    for (let i = 0; i < 5; i++) { ids.set(queue.enqueue({ client: 'A' }) as string, 'A'); }
+    for (let i = 0; i < 2; i++) { ids.set(queue.enqueue({ client: 'B' }) as string, 'B'); }
+    ids.set(queue.enqueue({ client: 'C' }) as string, 'C');
+
+    const order = clientsOf(queue, ids).join('');
+    console.log(`[*] Order: ${order}`);
+    assert(order === 'ABCABAAA', `Expected interleaved order ABCABAAA, got ${order}`);
+    console.log("[+] Clients are interleaved.");
+}
+
+async function testWeight() {
+    console.log(`\n--- Weight ---`);
+    const queue = new OrderedQueue(1);
+    const ids = new Map<string, string>();
+
+    for (let i = 0; i < 4; i++) { ids.set(queue.enqueue({ client: 'A', weight: 2 }) as string, 'A'); }
+    for (let i = 0; i < 4; i++) { ids.set(queue.enqueue({ client: 'B' }) as string, 'B'); }
+
+    const order = clientsOf(queue, ids).join('');
+    console.log(`[*] Order: ${order}`);
+    assert(order.slice(0, 6) === 'AABAAB', `Expected weighted order AABAAB..., got ${order}`);
+    console.log("[+] Weighted client is served twice as often.");
+}
+
+async function testPriority() {
+    console.log(`\n--- Priority ---`);
+    const queue = new OrderedQueue(1);
+    const first = queue.enqueue({ client: 'A' }) as string;
+    const low = queue.enqueue({ client: 'B' }) as string;
+    const high = queue.enqueue({ client: 'C', priority: 10 }) as string;
+
+    assert(queue.getPosition(first) === 0, 'Running item must keep its position');
+    assert(queue.getPosition(high) === 1, 'High priority item must be next');
+    assert(queue.getPosition(low) === 2, 'Low priority item must be last');
+    console.log("[+] Higher priority items are moved ahead.");
+}
+
+async function testClientLimit() {
+    console.log(`\n--- Client Limit ---`);
+    const queue = new OrderedQueue(1, 2);
+    const first = queue.enqueue({ client: 'A' }) as string;
+    assert(queue.enqueue({ client: 'A' }) !== null, 'Second item must be accepted');
+    assert(queue.enqueue({ client: 'A' }) === null, 'Third item must be rejected');
+    assert(queue.enqueue({ client: 'A', force: true }) !== null, 'Forced item must be accepted');
+    assert(queue.enqueue({ client: 'B' }) !== null, 'Other clients must be accepted');
+
+    queue.dequeue(first);
+    assert(queue.count('A') === 2, `Expected 2 items for client A, got ${queue.count('A')}`);
+    console.log("[+] Per client limit is enforced.");
+}
+
+async function testWait() {
+    console.log(`\n--- Wait ---`);
+    const queue = new OrderedQueue(2);
+    const a = queue.enqueue({ client: 'A' }) as string;
+    const b = queue.enqueue({ client: 'A' }) as string;
+    const c = queue.enqueue({ client: 'B' }) as string;
+    const d = queue.enqueue({ client: 'A' }) as string;
+
+    assert(queue.active(a) && queue.active(b), 'First two items must be active');
+    assert(!queue.active(c) && (queue.getPosition(c) === 2), 'Item of client B must be first in line');
+
+    let started = false;
+    const waiting = queue.wait(c).then(status => { started = status; });
+    queue.dequeue(a);
+    await waiting;
+    assert(started && queue.active(c), 'Item of client B must start after dequeue');
+
+    queue.dequeue(d);
+    const cancelled = await queue.wait(d);
+    assert(!cancelled && !queue.inqueue(d), 'Dequeued item must not be waiting');
+    console.log("[+] Waiters are resolved in order.");
+}
+
+export async function runQueueTest() {
+    try {
+        await testFairness();
+        await testWeight();
+        await testPriority();
+        await testClientLimit();
+        await testWait();
+        console.log('\nAll test scenarios passed successfully!');
+    } catch (error) {
+        console.error('\n[!] A test scenario failed!');
+        console.error(error);
+        process.exit(1);
+    }
+};
+
+(async () => {
+    await runQueueTest();
+    process.exit(0);
+})();
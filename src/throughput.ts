@@ -0,0 +1,98 @@
+import { DatabaseManager } from './database/manager.js';
+import { JobTracker } from './tracker.js';
+import { WorkerPoolType } from './worker.js';
+
+export type ThroughputStage = WorkerPoolType;
+export type ThroughputWorkload = { [unit: string]: number };
+export type StageWorkload = { stage: ThroughputStage, type: string, workload: ThroughputWorkload };
+
+type StageEstimate = {
+    type: string;
+    workload: ThroughputWorkload;
+    seconds: number | null;
+    progress: number;
+    start?: number;
+    end?: number;
+};
+
+export class JobEstimate {
+    private jobId: string;
+    private stages: Map<ThroughputStage, StageEstimate> = new Map();
+
+    constructor(jobId: string) {
+        this.jobId = jobId;
+    }
+
+    public async plan(stage: ThroughputStage, type: string, workload: ThroughputWorkload): Promise<void> {
+        const current = this.stages.get(stage);
+        const merged = { ...current?.workload, ...workload };
+        const seconds = await JobEstimate.estimate(stage, type, merged);
+        this.stages.set(stage, { progress: 0, ...current, type, workload: merged, seconds: seconds ?? current?.seconds ?? null });
+        this.update();
+    }
+
+    public start(stage: ThroughputStage): void {
+        const estimate = this.stages.get(stage);
+        if (estimate) { estimate.start = Date.now(); }
+        this.update();
+    }
+
+    public progress(stage: ThroughputStage, progress: number): void {
+        const estimate = this.stages.get(stage);
+        if (estimate) { estimate.progress = progress; }
+        this.update();
+    }
+
+    public finish(stage: ThroughputStage): void {
+        const estimate = this.stages.get(stage);
+        if (estimate?.start) { estimate.end = Date.now(); }
+        this.update();
+    }
+
+    public getEta(): number | undefined {
+        var eta = 0;
+
+        for (const stage of this.stages.values()) {
+            const remaining = JobEstimate.remaining(stage);
+            if (remaining === null) { return undefined; }
+            eta += remaining;
+        }
+
+        return Math.round(eta);
+    }
+
+    public async save(): Promise<void> {
+        for (const [stage, { type, workload, start, end }] of this.stages) {
+            if (!start || !end) { continue; }
+            for (const [unit, amount] of Object.entries(workload)) { await DatabaseManager.addThroughput(`${stage}:${type}:${unit}`, amount, end - start); }
+        }
+    }
+
+    private update(): void {
+        JobTracker.setEta(this.jobId, this.getEta());
+    }
+
+    private static async estimate(stage: ThroughputStage, type: string, workload: ThroughputWorkload): Promise<number | null> {
+        const units = Object.keys(workload).sort((a, b) => Number(a === 'byte') - Number(b === 'byte'));
+
+        for (const unit of units) {
+            const rate = await DatabaseManager.getThroughput(`${stage}:${type}:${unit}`);
+            if (rate !== null) { return (rate * workload[unit]) / 1000; }
+        }
+
+        return null;
+    }
+
+    private static remaining(stage: StageEstimate): number | null {
+        if (stage.end) { return 0; }
+        if (!stage.start) { return stage.seconds; }
+
+        const elapsed = (Date.now() - stage.start) / 1000;
+        const historical = (stage.seconds !== null) ? Math.max(0, stage.seconds - elapsed) : null;
+        const observed = (stage.progress > 0) ? elapsed * (100 - stage.progress) / stage.progress : null;
+        if ((historical === null) || (observed === null)) { return historical ?? observed; }
+
+        const weight = Math.min(stage.progress, 100) / 100;
+        return (1 - weight) * historical + weight * observed;
+    }
+}
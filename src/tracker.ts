@@ -1,13 +1,17 @@
 import * as socketio from 'socket.io';
-import { OrderedQueue } from './queue.js';
+import { EventEmitter } from 'events';
+import { OrderedQueue, OrderedQueueOptions } from './queue.js';
 import config from './config.js';
-import path from 'path';
+import { GlossaryPartial } from './glossary/glossary.js';
 
 export enum JobStatus {
     QUEUED = 'Queued',
     UPLOADING = 'Uploading',
     EXTRACTING = 'Extracting',
+    EXTRACTED = 'Extracted',
     PROCESSING = 'Processing',
+    COMPLETED = 'Completed',
+    CANCELLED = 'Cancelled',
     FAILED = 'Failed',
 }
 
@@ -18,6 +22,28 @@ export interface TrackedJob {
     status: JobStatus;
     progress: number;
     message?: string;
+    error?: string;
+    hash?: string;
+    glossary?: string;
+    ip_address?: string;
+    owner?: string;
+    eta?: number;
+}
+
+export enum WorkerStatus {
+    STARTING = 'Starting',
+    IDLE = 'Idle',
+    BUSY = 'Busy',
+    CRASHED = 'Crashed',
+}
+
+export interface WorkerHealth {
+    pool: string;
+    index: number;
+    status: WorkerStatus;
+    crashes: number;
+    error?: string;
+    update_date: number;
 }
 
 export interface QueuedItem {
@@ -34,20 +60,47 @@ export interface QueueState {
     waitingPosition?: number;
 }
 
-class JobTrackerController {
+class JobTrackerController extends EventEmitter {
+    public static ADMIN_ROOM = 'admins';
     private io: socketio.Server | null = null;
     private jobs: Map<string, TrackedJob> = new Map();
+    private workers: Map<string, WorkerHealth> = new Map();
+    private sessions: Map<string, string> = new Map();
+
+    constructor() {
+        super();
+        this.setMaxListeners(0);
+    }
 
     public setIoServer(io: socketio.Server): void {
         this.io = io;
     }
 
-    public addJob(filename: string, status: JobStatus, progress: number = 0, message?: string): string {
+    public addSession(socket: socketio.Socket, session: string, ip_address: string, admin: boolean): void {
+        this.sessions.set(session, ip_address);
+        socket.join(`session:${session}`);
+        if (admin) { socket.join(JobTrackerController.ADMIN_ROOM); }
+        socket.once('disconnect', () => { if (!this.io?.sockets.adapter.rooms.has(`session:${session}`)) { this.sessions.delete(session); } });
+
+        socket.emit('tracker-update', this.getJobs(session, ip_address));
+        if (admin) { socket.emit('admin-update', this.getAllJobs()); }
+        if (config.DEBUG) { console.log(`[JOB TRACKER] -> session: ${session}, ip_address: ${ip_address}, admin: ${admin}`); }
+    }
+
+    public addJob(filename: string, status: JobStatus, progress: number = 0, message?: string, ip_address?: string, owner?: string): string {
         const id = crypto.randomUUID();
         const masked = crypto.randomUUID().replaceAll('-', '');
-        const job: TrackedJob = { id, filename, masked, status, progress, message };
+        const job: TrackedJob = { id, filename, masked, status, progress, message, ip_address, owner: owner || undefined };
         this.jobs.set(id, job);
-        console.log(`[JOB TRACKER] -> added id: ${id}, status: ${status}, progress: 0, message: ${message}`);
+        console.log(`[JOB TRACKER] -> added id: ${id}, status: ${status}, progress: 0, message: ${message}, owner: ${owner}`);
+        this.broadcastUpdates();
+        return id;
+    }
+
+    public restoreJob(id: string, filename: string, status: JobStatus, ip_address?: string, owner?: string): string {
+        const masked = crypto.randomUUID().replaceAll('-', '');
+        this.jobs.set(id, { id, filename, masked, status, progress: 0, ip_address, owner: owner || undefined });
+        console.log(`[JOB TRACKER] -> restored id: ${id}, status: ${status}, filename: ${filename}`);
         this.broadcastUpdates();
         return id;
     }
@@ -67,10 +120,40 @@ class JobTrackerController {
         if (message) { job.message = message; }
 
         this.jobs.set(id, job);
+        this.emit('update', job);
         if (config.DEBUG) { console.log(`[JOB TRACKER] -> updated id: ${id}, status: ${status}, progress: ${progress}, message: ${message}, filename: ${job.filename}, masked: ${job.masked}`); }
         this.broadcastUpdates();
     }
 
+    public finishJob(id: string, status: JobStatus.COMPLETED | JobStatus.CANCELLED | JobStatus.FAILED, hash?: string, message?: string, error?: string, glossary?: string): void {
+        const job = this.jobs.get(id);
+        if (!job) { return; }
+
+        job.status = status;
+        job.progress = (status === JobStatus.COMPLETED) ? 100 : job.progress;
+        job.hash = hash;
+        job.glossary = glossary;
+        job.message = message;
+        job.error = error;
+        job.eta = undefined;
+
+        console.log(`[JOB TRACKER] -> finished id: ${id}, status: ${status}, hash: ${hash}, message: ${message}, error: ${error}`);
+        setTimeout(() => this.removeJob(id), config.JOB_RETENTION_TIME).unref();
+        this.broadcastUpdates();
+    }
+
+    public setEta(id: string, eta?: number): void {
+        const job = this.jobs.get(id);
+        if (!job) { return; }
+        const changed = (job.eta === undefined) !== (eta === undefined);
+        job.eta = eta;
+        if (changed) { this.broadcastUpdates(); }
+    }
+
+    public getJob(id: string): TrackedJob | null {
+        return this.jobs.get(id) || null;
+    }
+
     public removeJob(id: string): void {
         if (this.jobs.has(id)) {
             const job = this.jobs.get(id);
@@ -80,17 +163,49 @@ class JobTrackerController {
         }
     }
 
-    public getJobs(mask: boolean = true): TrackedJob[] {
-        return Array.from(this.jobs.values()).map(job => {
-            const parsed = path.parse(job.filename);
-            const filename = mask ? (job.masked + parsed.ext) : job.filename;
-            return { ...job, filename };
+    public updateWorker(pool: string, index: number, status: WorkerStatus, error?: string): void {
+        const worker = this.workers.get(`${pool}:${index}`) || { pool, index, status, crashes: 0, update_date: Date.now() };
+        worker.status = status;
+        worker.update_date = Date.now();
+        if (status === WorkerStatus.CRASHED) { worker.crashes++; worker.error = error; }
+
+        this.workers.set(`${pool}:${index}`, worker);
+        if (config.DEBUG) { console.log(`[JOB TRACKER] -> worker: ${pool}:${index}, status: ${status}, crashes: ${worker.crashes}, error: ${worker.error}`); }
+        this.io?.emit('worker-update', this.getWorkers());
+    }
+
+    public sendPartial(id: string, partial: GlossaryPartial): void {
+        const job = this.jobs.get(id);
+        if (!job || !this.io) { return; }
+        const sessions = Array.from(this.sessions.keys()).filter(session => this.isOwner(job, session, this.sessions.get(session)));
+        sessions.forEach(session => this.io!.to(`session:${session}`).emit('glossary-partial', { jobId: id, ...partial }));
+        if (config.DEBUG) { console.log(`[JOB TRACKER] -> partial id: ${id}, chunk: ${partial.chunk + 1}/${partial.total}, entries: ${partial.entries.length}, sessions: ${sessions.length}`); }
+    }
+
+    public getWorkers(): WorkerHealth[] {
+        return Array.from(this.workers.values()).sort((a, b) => a.pool.localeCompare(b.pool) || (a.index - b.index));
+    }
+
+    public isOwner(job: TrackedJob, session?: string, ip_address?: string): boolean {
+        if (job.owner) { return job.owner === session; }
+        return !!ip_address && (job.ip_address === ip_address);
+    }
+
+    public getJobs(session?: string, ip_address?: string): TrackedJob[] {
+        return Array.from(this.jobs.values()).filter(job => this.isOwner(job, session, ip_address)).map(job => {
+            const { ip_address, owner, ...safeJob } = job;
+            return safeJob;
         });
     }
 
+    public getAllJobs(): TrackedJob[] {
+        return Array.from(this.jobs.values()).map(job => ({ ...job }));
+    }
+
     private broadcastUpdates(): void {
         if (!this.io) { return; }
-        this.io.emit('tracker-update', this.getJobs());
+        for (const [session, ip_address] of this.sessions) { this.io.to(`session:${session}`).emit('tracker-update', this.getJobs(session, ip_address)); }
+        this.io.to(JobTrackerController.ADMIN_ROOM).emit('admin-update', this.getAllJobs());
     }
 }
 
@@ -103,10 +218,13 @@ class QueueTrackerController extends OrderedQueue {
         this.io = io;
     }
 
-    public enqueue(socketId?: string): string | null {
-        if (socketId && !Array.from(this.getSockets()).some(socket => socket.socketId === socketId)) { return null; }
+    public enqueue(options: OrderedQueueOptions & { socketId?: string } = {}): string | null {
+        const socketId = (options.socketId && this.hasSocket(options.socketId)) ? options.socketId : undefined;
+        const client = options.client || socketId;
 
-        const id = super.enqueue() as string;
+        const id = super.enqueue({ ...options, client });
+        if (!id) { console.log(`[QUEUE TRACKER] -> enqueue rejected -> client: ${client}, ${this.count(client || '')}/${this.maxClient()} (MAX CLIENT)`); }
+        if (!id) { return null; }
         if (socketId) { this.socketIdMap.set(id, socketId); }
         if (socketId && !this.reverseMap.has(socketId)) { this.reverseMap.set(socketId, new Set()); }
         if (socketId) { this.reverseMap.get(socketId)!.add(id); }
@@ -148,6 +266,10 @@ class QueueTrackerController extends OrderedQueue {
         return { queue: fullQueue, activeCount, waitingCount, activePosition, waitingPosition }
     }
 
+    public hasSocket(socketId: string): boolean {
+        return Array.from(this.getSockets()).some(socket => socket.socketId === socketId);
+    }
+
     public getSockets(): { socketId: string, emit: any }[] {
         return this.io.sockets.sockets.values();
     }
@@ -161,4 +283,4 @@ class QueueTrackerController extends OrderedQueue {
 }
 
 export const JobTracker = new JobTrackerController();
-export const QueueTracker = new QueueTrackerController(config.WORKER_COUNT);
\ No newline at end of file
+export const QueueTracker = new QueueTrackerController(config.EXTRACTION_WORKER_COUNT + config.GENERATION_WORKER_COUNT, config.QUEUE.MAX_PER_CLIENT);
\ No newline at end of file
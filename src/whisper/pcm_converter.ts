@@ -9,6 +9,7 @@ import config from "../config.js";
 export class PCMConverter extends EventEmitter {
     private static UNSUPORTED_STREAM: string[] = ['mp4', 'mov'];
     private stream: PassThrough = new PassThrough();
+    private command: ffmpeg.FfmpegCommand | null = null;
     private input: string | Readable;
     private input_format: string = null as unknown as string;
     private codec: string = null as unknown as string;
@@ -78,7 +79,7 @@ export class PCMConverter extends EventEmitter {
             }
         }
 
-        const command = ffmpeg(this.input)
+        const command = this.command = ffmpeg(this.input)
             .noVideo()
             .audioCodec(codec)
             .format(format)
@@ -116,6 +117,11 @@ export class PCMConverter extends EventEmitter {
         command.pipe(this.stream, { end: true });
     }
 
+    public stop(): void {
+        if (this.command) { this.command.kill('SIGKILL'); }
+        this.stream.destroy();
+    }
+
     pipe(stream: Writable, options?: { end?: boolean }, codec?: string, format?: string): Writable {
         this.start(codec ? codec : this.codec, format ? format : this.format, 1, 16000);
         this.stream.pipe(stream, options);
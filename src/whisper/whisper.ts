@@ -7,6 +7,7 @@ import config from '../config.js';
 import { Readable } from 'stream';
 import { EventEmitter } from 'events';
 import { spawn } from 'child_process';
+import { Semaphore } from '../queue.js';
 import { PCMConverter } from './pcm_converter.js';
 import { VadAdapter, VadAdapterOptions } from './vad_adapter.js';
 import { initWhisper, TranscribeNewSegmentsResult, WhisperContext } from '@fugood/whisper.node'
@@ -40,8 +41,10 @@ export class WhisperStream extends EventEmitter {
     public static WHISPER_DEFAULT_MODEL = 'ggml-base.bin';
     private static WHISPER_NODE = true;
     private static models: string[] = [];
-    private static loading: boolean | null = false;
+    private static loader: Semaphore = new Semaphore(1);
     private transcribing: boolean = false;
+    private duration: number = 0;
+    private stopCallback: (() => void) | null = null;
     private audioInput: string | Buffer | Readable = undefined as unknown as string;
     private options: WhisperOptions;
     private vad_options: VadAdapterOptions;
@@ -63,9 +66,20 @@ export class WhisperStream extends EventEmitter {
             let isVadFinished = false;
             let conversionProgress = 0;
             let progressMarker = 0;
+            let currentNode: WhisperPCM | null = null;
+            let stopped = false;
+
+            this.stopCallback = () => {
+                stopped = true;
+                pmcConverter.stop();
+                vadAdapter.destroy();
+                currentNode?.stop();
+                reject(new Error('Transcription was stopped.'));
+            };
 
             const checkCompletion = () => {
                 if (isVadFinished && activeTranscriptionJobs === 0) {
+                    this.duration = vadAdapter.getTotalSecondsProcessed();
                     this.emit('progress', 100);
                     resolve(segments);
                 }
@@ -81,6 +95,7 @@ export class WhisperStream extends EventEmitter {
                 vadAdapter.pause();
 
                 if (this.transcribing) { await new Promise(resolve => this.once('resume', resolve)); }
+                if (stopped) { return; }
                 this.transcribing = true;
                 vadAdapter.resume();
 
@@ -95,6 +110,7 @@ export class WhisperStream extends EventEmitter {
 
                 try {
                     const whisperNode = WhisperStream.WHISPER_NODE ? new WhisperNode(chunk, this.options) : new WhisperPCM(chunk, this.options);
+                    currentNode = whisperNode;
 
                     whisperNode.on('language', (language) => this.emit('language', language));
                     whisperNode.on('transcription', (segment) => {
@@ -137,6 +153,15 @@ export class WhisperStream extends EventEmitter {
         });
     }
 
+    public getDuration(): number {
+        return this.duration;
+    }
+
+    public stop(): void {
+        if (this.stopCallback) { this.stopCallback(); }
+        this.stopCallback = null;
+    }
+
     public static async getModels(): Promise<string[]> {
         try {
             if (WhisperStream.models.length > 0) { return WhisperStream.models; }
@@ -151,22 +176,21 @@ export class WhisperStream extends EventEmitter {
     }
 
     public static async getModel(modelName: string): Promise<string | null> {
-        while (WhisperStream.loading) { await new Promise(res => setTimeout(res, 1)); }
-        if (!(await WhisperStream.getModels()).includes(modelName)) { throw new Error(`Model "${modelName}" is not a valid model. Available models are: ${WhisperStream.models.join(', ')}`); }
-        WhisperStream.loading = true;
-
-        const downloadUrl = `https://huggingface.co/ggerganov/whisper.cpp/resolve/main/${modelName}`;
-        const headResponse = await fetch(downloadUrl, { method: 'HEAD' });
-        const contentLength = parseInt(headResponse?.headers?.get('content-length') || "-1");
-
-        const modelPath = path.resolve(WhisperStream.MODELS_DIRECTORY, modelName);
-        try { await fsp.mkdir(WhisperStream.MODELS_DIRECTORY, { recursive: true }); } catch (e) { return WhisperStream.loading = null; }
-        try { var fsize = (await fsp.stat(modelPath)).size } catch (e) { fsize = 0; }
-        if (fsize === contentLength) { return modelPath; }
-
-        var result = await sutils.download(downloadUrl, {}, modelPath, { text: `Downloading model "${modelName}"` });
-        WhisperStream.loading = false;
-        return result.status ? modelPath : null;
+        return await WhisperStream.loader.use(async () => {
+            if (!(await WhisperStream.getModels()).includes(modelName)) { throw new Error(`Model "${modelName}" is not a valid model. Available models are: ${WhisperStream.models.join(', ')}`); }
+
+            const downloadUrl = `https://huggingface.co/ggerganov/whisper.cpp/resolve/main/${modelName}`;
+            const headResponse = await fetch(downloadUrl, { method: 'HEAD' });
+            const contentLength = parseInt(headResponse?.headers?.get('content-length') || "-1");
+
+            const modelPath = path.resolve(WhisperStream.MODELS_DIRECTORY, modelName);
+            try { await fsp.mkdir(WhisperStream.MODELS_DIRECTORY, { recursive: true }); } catch (e) { return null; }
+            try { var fsize = (await fsp.stat(modelPath)).size } catch (e) { fsize = 0; }
+            if (fsize === contentLength) { return modelPath; }
+
+            var result = await sutils.download(downloadUrl, {}, modelPath, { text: `Downloading model "${modelName}"` });
+            return result.status ? modelPath : null;
+        });
     }
 
     public static async getWhisper(): Promise<string> {
@@ -178,10 +202,11 @@ export class WhisperStream extends EventEmitter {
         const zipPath = path.resolve(WhisperStream.WHISPER_DIRECTORY, 'whisper.zip');
         const releaseFolderPath = path.resolve(WhisperStream.WHISPER_DIRECTORY, 'Release');
 
+        try { if ((await fsp.stat(executablePath)).size) { return executablePath; } } catch (e) {}
+        await WhisperStream.loader.acquire();
+
         try {
             try { if ((await fsp.stat(executablePath)).size) { return executablePath; } } catch (e) {}
-            while (WhisperStream.loading) { await new Promise(res => setTimeout(res, 1)); }
-            WhisperStream.loading = true;
 
             await fsp.mkdir(WhisperStream.WHISPER_DIRECTORY, { recursive: true });
             const downloadResult = await sutils.download(WhisperStream.WHISPER_WIN_URL, {}, zipPath, { text: 'Downloading Whisper CLI' });
@@ -202,7 +227,7 @@ export class WhisperStream extends EventEmitter {
         } finally {
             await fsp.unlink(zipPath).catch(() => {}),
             await fsp.rm(releaseFolderPath, { recursive: true, force: true }).catch(() => {})
-            WhisperStream.loading = false;
+            WhisperStream.loader.release();
         }
     }
 
@@ -224,6 +249,7 @@ export class WhisperPCM extends EventEmitter {
     protected transcriptionSegments: TranscriptionSegment[] = [];
     protected options: WhisperOptions;
     protected pcm: Buffer | ArrayBuffer;
+    protected stopCallback: (() => void) | null = null;
 
     constructor(pcm: Buffer, options?: WhisperOptions, rawPcm: boolean = true) {
         super();
@@ -237,6 +263,10 @@ export class WhisperPCM extends EventEmitter {
         return parseFloat(h) * 3600 + parseFloat(m) * 60 + parseFloat(s);
     }
 
+    public stop(): void {
+        if (this.stopCallback) { this.stopCallback(); }
+    }
+
     protected setProgress(progress: number) {
         progress = isNaN(progress) ? 0 : Math.min(100, progress);
         if (this.progress >= progress) { return; }
@@ -286,6 +316,8 @@ export class WhisperPCM extends EventEmitter {
                     '-f', '-',
                 ]);
 
+                this.stopCallback = () => whisperProcess.kill();
+
                 whisperProcess.stdout.on('data', (data) => {
                     if (config.DEBUG) { console.log(data.toString().trim().split(/\r\n?|\n/).map((line: string) => `[whisper stdout] -> ${line}`).join('\n')); }
                     (data.toString() as string).split(/\r\n?|\n/).forEach((line) => this.parseLine(line));
@@ -351,6 +383,8 @@ export class WhisperNode extends WhisperPCM {
                     },
                 });
 
+                this.stopCallback = () => stop();
+
                 const result = await promise;
                 await context.release();
                 this.emit('end', this.transcriptionSegments);
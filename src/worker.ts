@@ -1,32 +1,40 @@
 import config from './config.js';
-import { Worker, isMainThread, parentPort } from 'worker_threads';
+import { Worker, isMainThread, parentPort, workerData } from 'worker_threads';
 import { fileURLToPath } from 'url';
 import { EventEmitter } from 'events';
 import { getProcessor } from './supported.js';
-import { FileProcessor } from './processors/file_processor.js';
-import { GlossaryReport } from './glossary/glossary.js';
-import { GlossaryFactory } from './glossary/factory.js';
+import { FileProcessor, OcrStats, TextSegment } from './processors/file_processor.js';
+import { GlossaryGenerator, GlossaryOptions, GlossaryPartial, GlossaryReport } from './glossary/glossary.js';
+import { GlossaryFactory, GlossaryGeneratorType } from './glossary/factory.js';
+import { JobTracker, WorkerStatus } from './tracker.js';
+import { Condition } from './queue.js';
+import { Tokenizer } from './glossary/tokenizer.js';
+import { StageWorkload } from './throughput.js';
 
 export const WMT_WORKER_LOADED = 'worker_loaded' as const;
 export const WMT_WORKER_TAKEN = 'worker_taken' as const;
 export const WMT_WORKER_FREE = 'worker_free' as const;
 export const WMT_EXTRACT_TEXT = 'extract_text' as const;
 export const WMT_EXTRACT_GLOSSARY = 'extract_glossary' as const;
-export const WMT_TEXT_GLOSSARY = 'text+glossary' as const;
 export const WMT_ERROR = 'error' as const;
 export const WMT_EXTRACT_PROGRESS = 'extract_progress' as const;
 export const WMT_GLOSSARY_PROGRESS = 'glossary_progress' as const;
 export const WMT_GLOSSARY_CHUNK = 'response_chunk' as const;
+export const WMT_GLOSSARY_ENTRIES = 'glossary_entries' as const;
+export const WMT_WORKLOAD = 'workload' as const;
+export const WMT_CANCEL = 'cancel' as const;
 
 export type WorkerMessageType =
     | typeof WMT_WORKER_LOADED
     | typeof WMT_EXTRACT_TEXT
     | typeof WMT_EXTRACT_GLOSSARY
-    | typeof WMT_TEXT_GLOSSARY
     | typeof WMT_ERROR
     | typeof WMT_EXTRACT_PROGRESS
     | typeof WMT_GLOSSARY_PROGRESS
-    | typeof WMT_GLOSSARY_CHUNK;
+    | typeof WMT_GLOSSARY_CHUNK
+    | typeof WMT_GLOSSARY_ENTRIES
+    | typeof WMT_WORKLOAD
+    | typeof WMT_CANCEL;
 
 export const CWT_EXTRACT_TEXT = 'extract_text' as const;
 export const CWT_EXTRACT_GLOSSARY = 'extract_glossary' as const;
@@ -37,117 +45,261 @@ export type ContentWorkerType =
     | typeof CWT_EXTRACT_GLOSSARY
     | typeof CWT_TEXT_GLOSSARY;
 
-export const JOB_TO_MESSAGE_MAP: { [key in ContentWorkerType]: WorkerMessageType } = {
-    [CWT_EXTRACT_TEXT]: WMT_EXTRACT_TEXT,
-    [CWT_EXTRACT_GLOSSARY]: WMT_EXTRACT_GLOSSARY,
-    [CWT_TEXT_GLOSSARY]: WMT_TEXT_GLOSSARY,
-};
-
 export type ContentWorkerResult = {
     text?: string;
+    segments?: TextSegment[];
+    ocr?: OcrStats | null;
     glossary?: GlossaryReport;
     error?: Error;
+    code?: ContentWorkerErrorCode;
+};
+
+export type ContentWorkerErrorCode = '500.1' | '500.2' | '500.3' | '500.4' | '500.5';
+
+type WorkerMessage = { type: WorkerMessageType, message: any, generator?: GlossaryGeneratorType, options?: GlossaryOptions };
+
+export const CANCELLED_MESSAGE = 'The job was cancelled.';
+
+export type WorkerPoolType = 'extraction' | 'generation';
+
+export const TYPE_TO_POOL_MAP: { [key in ContentWorkerType]: WorkerPoolType[] } = {
+    [CWT_EXTRACT_TEXT]: ['extraction'],
+    [CWT_EXTRACT_GLOSSARY]: ['generation'],
+    [CWT_TEXT_GLOSSARY]: ['extraction', 'generation'],
 };
 
-type WorkerMessage = { type: WorkerMessageType, message: any };
+export const POOL_TO_MESSAGE_MAP: { [key in WorkerPoolType]: WorkerMessageType } = {
+    extraction: WMT_EXTRACT_TEXT,
+    generation: WMT_EXTRACT_GLOSSARY,
+};
+
+export const POOL_TO_TIMEOUT_MAP: { [key in WorkerPoolType]: { timeout: number, code: ContentWorkerErrorCode } } = {
+    extraction: { timeout: config.STAGE_TIMEOUTS.EXTRACT, code: '500.2' },
+    generation: { timeout: config.STAGE_TIMEOUTS.GENERATE, code: '500.3' },
+};
+
+class WorkerPool {
+    private workers: Array<Worker | null> = [];
+    private idle: Array<Worker> = [];
+    private available: Condition = new Condition();
+    private readonly type: WorkerPoolType;
+    private readonly size: number;
+
+    constructor(type: WorkerPoolType, size: number) {
+        this.type = type;
+        this.size = Math.max(1, size);
+    }
+
+    public async create(): Promise<void> {
+        if (this.workers.length > 0) { return; }
+        this.workers = new Array(this.size).fill(null);
+
+        for (let i = 0; i < this.size; i++) {
+            if (await this.spawnWorker(i)) { console.log(`Created ${this.type} worker [${i + 1}/${this.size}].`); }
+        }
+    }
+
+    public async acquire(): Promise<{ worker: Worker, index: number }> {
+        if (this.workers.length == 0) { await this.create(); }
+        while (this.idle.length == 0) { await this.available.wait(); }
+        var worker = this.idle.shift()!;
+        var index = this.workers.indexOf(worker);
+        JobTracker.updateWorker(this.type, index, WorkerStatus.BUSY);
+        return { worker, index };
+    }
+
+    public release(worker: Worker, index: number): void {
+        if (this.workers[index] !== worker) { return; }
+        this.idle.push(worker);
+        this.available.notifyAll();
+        JobTracker.updateWorker(this.type, index, WorkerStatus.IDLE);
+    }
+
+    public terminate(worker: Worker, index: number, error: Error): void {
+        if (this.workers[index] !== worker) { return; }
+        worker.removeAllListeners('exit');
+        worker.terminate().catch(() => {});
+        this.onWorkerExit(index, worker, error);
+    }
+
+    private async spawnWorker(index: number): Promise<boolean> {
+        JobTracker.updateWorker(this.type, index, WorkerStatus.STARTING);
+        var resourceLimits = { maxOldGenerationSizeMb: config.WORKER_MAX_HEAP_SIZE };
+        var worker = new Worker(fileURLToPath(import.meta.url), { workerData: { pool: this.type }, resourceLimits });
+        var error: Error | null = null;
+        worker.on('error', (e) => { error = e; });
+
+        var loaded = await new Promise<boolean>(resolve => {
+            worker.once('message', () => resolve(true));
+            worker.once('exit', () => resolve(false));
+        });
+
+        if (!loaded) { this.onWorkerExit(index, null, error); return false; }
+        worker.once('exit', (code) => this.onWorkerExit(index, worker, error || new Error(`Exit code: ${code}`)));
+        this.workers[index] = worker;
+        this.idle.push(worker);
+        this.available.notifyAll();
+        JobTracker.updateWorker(this.type, index, WorkerStatus.IDLE);
+        return true;
+    }
+
+    private onWorkerExit(index: number, worker: Worker | null, error: Error | null): void {
+        if (worker && (this.workers[index] !== worker)) { return; }
+        this.workers[index] = null;
+        this.idle = this.idle.filter(w => w !== worker);
+        console.error(`[WorkerPool] -> ${this.type} worker ${index} stopped, restarting in ${config.WORKER_RESTART_DELAY} ms. Details:`, error);
+        JobTracker.updateWorker(this.type, index, WorkerStatus.CRASHED, error?.message);
+        setTimeout(() => this.spawnWorker(index), config.WORKER_RESTART_DELAY);
+    }
+
+    public getFreeCount(): number { return this.idle.length; }
+    public getTotalCount(): number { return this.size; }
+}
 
 export class ContentWorker extends EventEmitter {
-    private static WORKERS_COUNT: number = config.WORKER_COUNT;
-    private static FREE_WORKERS: number = config.WORKER_COUNT;
-    private static WORKER_INDEX: number = 0;
-    private static WORKERS: Array<Worker> = [];
+    private static POOLS: { [key in WorkerPoolType]: WorkerPool } = {
+        extraction: new WorkerPool('extraction', config.EXTRACTION_WORKER_COUNT),
+        generation: new WorkerPool('generation', config.GENERATION_WORKER_COUNT),
+    };
     private type: ContentWorkerType;
     private input: String;
+    private generator?: GlossaryGeneratorType;
+    private options?: GlossaryOptions;
+    private worker: Worker | null = null;
+    private cancelled: boolean = false;
 
-    constructor(input: String, type: ContentWorkerType) {
+    constructor(input: String, type: ContentWorkerType, generator?: GlossaryGeneratorType, options?: GlossaryOptions) {
         super();
         this.input = input;
         this.type = type;
-    }
-
-    public static async waitInQueue() {
-        while (ContentWorker.FREE_WORKERS == 0) { await new Promise(resolve => setTimeout(resolve, 1)); }
+        this.generator = generator;
+        this.options = options;
     }
 
     public async waitResult(): Promise<ContentWorkerResult> {
-        if (ContentWorker.WORKERS.length == 0) { await ContentWorker.createWorkers(); }
-        await ContentWorker.waitInQueue();
-        console.log(`[ContentWorker] -> file: ${this.input}, free: ${ContentWorker.FREE_WORKERS}`);
+        var input = this.input;
+        var result: ContentWorkerResult = {};
 
-        var worker = ContentWorker.WORKERS[ContentWorker.WORKER_INDEX];
-        ContentWorker.WORKER_INDEX = (ContentWorker.WORKER_INDEX + 1) % ContentWorker.WORKERS.length;
-        ContentWorker.FREE_WORKERS--;
+        for (const pool of TYPE_TO_POOL_MAP[this.type]) {
+            var stage = await this.runStage(pool, input);
+            if (stage.error) { return { ...result, ...stage }; }
+            if (pool === 'extraction') { input = stage.text as string; }
+            result = { ...result, ...stage };
+        }
 
-        this.emit(WMT_WORKER_TAKEN, { free: ContentWorker.FREE_WORKERS, full: ContentWorker.WORKERS_COUNT });
+        return result;
+    }
+
+    private async runStage(type: WorkerPoolType, input: String): Promise<ContentWorkerResult> {
+        const pool = ContentWorker.POOLS[type];
+        if (this.cancelled) { return { error: new Error(CANCELLED_MESSAGE) }; }
+        if ((typeof input !== 'string') || !input.trim()) { return { error: new Error(config.ERROR_CODES['500.5'].message), code: '500.5' }; }
+        var { worker, index } = await pool.acquire();
+        if (this.cancelled) { pool.release(worker, index); }
+        if (this.cancelled) { return { error: new Error(CANCELLED_MESSAGE) }; }
+
+        this.worker = worker;
+        this.emit(WMT_WORKER_TAKEN, { pool: type, free: pool.getFreeCount(), full: pool.getTotalCount() });
+        const limit = POOL_TO_TIMEOUT_MAP[type];
+        let failure: any = null;
+        let fail = (code: ContentWorkerErrorCode) => this.emit(WMT_ERROR, config.ERROR_CODES[code].message, code);
         let message_cb = (response: WorkerMessage) => this.emit(response.type, response.message);
-        worker.on('message', message_cb);
-        worker.postMessage({ type: JOB_TO_MESSAGE_MAP[this.type], message: this.input });
-
-        var result: ContentWorkerResult = await new Promise((resolve) => {
-            this.once(WMT_ERROR, (message) => resolve({ error: new Error(message) }));
-            this.once(WMT_EXTRACT_TEXT, (text) => resolve({ text }));
-            this.once(WMT_EXTRACT_GLOSSARY, (glossary) => resolve({ glossary: glossary }));
-            this.once(WMT_TEXT_GLOSSARY, (data) => resolve(data));
-        });
+        let error_cb = (error: any) => { failure = error; };
+        let exit_cb = () => fail((failure?.code === 'ERR_WORKER_OUT_OF_MEMORY') ? '500.4' : '500.1');
+        let timeout = setTimeout(() => fail(limit.code), limit.timeout);
+        var result: ContentWorkerResult = { error: new Error(config.ERROR_CODES['500.1'].message), code: '500.1' };
+
+        try {
+            worker.on('message', message_cb);
+            worker.on('error', error_cb);
+            worker.once('exit', exit_cb);
+            worker.postMessage({ type: POOL_TO_MESSAGE_MAP[type], message: input, generator: this.generator, options: this.options });
+
+            result = await new Promise((resolve) => {
+                this.once(WMT_ERROR, (message, code?: ContentWorkerErrorCode) => resolve({ error: new Error(message), code }));
+                this.once(WMT_EXTRACT_TEXT, ({ text, segments, ocr }) => resolve({ text, segments, ocr }));
+                this.once(WMT_EXTRACT_GLOSSARY, (glossary) => resolve({ glossary: glossary }));
+            });
+        } finally {
+            clearTimeout(timeout);
+            this.removeAllListeners(WMT_ERROR);
+            this.removeAllListeners(WMT_EXTRACT_TEXT);
+            this.removeAllListeners(WMT_EXTRACT_GLOSSARY);
+            worker.off('message', message_cb);
+            worker.off('error', error_cb);
+            worker.off('exit', exit_cb);
+            this.worker = null;
+            if (result.code === limit.code) { pool.terminate(worker, index, result.error!); } else { pool.release(worker, index); }
+            this.emit(WMT_WORKER_FREE, { pool: type, free: pool.getFreeCount(), full: pool.getTotalCount() });
+        }
 
-        ContentWorker.FREE_WORKERS++
-        this.emit(WMT_WORKER_FREE, { free: ContentWorker.FREE_WORKERS, full: ContentWorker.WORKERS_COUNT });
-        worker.off('message', message_cb);
         return result;
     }
 
-    public static async createWorkers(): Promise<void> {
-        if (this.WORKERS.length > 0) { return; }
+    public cancel(): void {
+        this.cancelled = true;
+        if (this.worker) { this.worker.postMessage({ type: WMT_CANCEL }); }
+    }
 
-        for (let i = 0; i < this.WORKERS_COUNT; i++) {
-            var worker = new Worker(fileURLToPath(import.meta.url));
-            await new Promise(resolve => worker.once('message', resolve));
-            this.WORKERS.push(worker);
-            console.log(`Created worker [${i + 1}/${this.WORKERS_COUNT}].`);
-        }
+    public static async createWorkers(): Promise<void> {
+        await ContentWorker.POOLS.extraction.create();
+        await ContentWorker.POOLS.generation.create();
     }
 
-    public static getFreeWorkersCount(): number { return ContentWorker.FREE_WORKERS; }
-    public static getTotalWorkersCount(): number { return ContentWorker.WORKERS_COUNT; }
+    public static getFreeWorkersCount(type: WorkerPoolType): number { return ContentWorker.POOLS[type].getFreeCount(); }
+    public static getTotalWorkersCount(type: WorkerPoolType): number { return ContentWorker.POOLS[type].getTotalCount(); }
 }
 
 (async () => {
     if (isMainThread) { return; }
-    var glossary = await GlossaryFactory.getInstance();
+    var generators: Map<GlossaryGeneratorType, GlossaryGenerator> = new Map();
+    if (workerData?.pool !== 'extraction') { generators.set(GlossaryFactory.getDefaultGenerator(), await GlossaryFactory.getInstance()); }
     parentPort!.postMessage(WMT_WORKER_LOADED);
+    var controller: AbortController | null = null;
 
     parentPort!.on('message', async (request: WorkerMessage) => {
+        if (request.type == WMT_CANCEL) { return controller?.abort(); }
+        controller = new AbortController();
+        const signal = controller.signal;
         var text_result = '';
 
-        if ((request.type == CWT_EXTRACT_TEXT) || (request.type == CWT_TEXT_GLOSSARY)) {
+        if (request.type == CWT_EXTRACT_GLOSSARY) {
+            var generator = request.generator || GlossaryFactory.getDefaultGenerator();
+            try { if (!generators.has(generator)) { generators.set(generator, await GlossaryFactory.getInstance(generator)); } }
+            catch (error: any) { return parentPort!.postMessage({ type: WMT_ERROR, message: `Failed to initialize glossary generator. Details: ${error?.message}` }); }
+            var glossary = generators.get(generator)!;
+            glossary.setOptions(request.options);
+        }
+
+        if (request.type == CWT_EXTRACT_TEXT) {
             try { var processor: FileProcessor | null = getProcessor(request.message); }
             catch (error: any) { return parentPort!.postMessage({ type: WMT_ERROR, message: `Failed to initialize file processor. Details: ${error?.message}` }); }
             if (!processor) { return parentPort!.postMessage({ type: WMT_ERROR, message: `Unsupported file type. No processor is available for the provided file.` }); }
             processor.setCallback((progress) => parentPort!.postMessage({ type: WMT_EXTRACT_PROGRESS, message: progress }));
+            processor.setSignal(signal);
+            processor.setLanguages(request.options?.ocr);
             text_result = await processor.extractText() as string;
-            if (request.type == CWT_EXTRACT_TEXT) { parentPort!.postMessage({ type: WMT_EXTRACT_TEXT, message: text_result }); }
+            parentPort!.postMessage({ type: WMT_WORKLOAD, message: { stage: 'extraction', type: processor.constructor.name, workload: processor.getWorkload() } as StageWorkload });
+            if (signal.aborted) { return parentPort!.postMessage({ type: WMT_ERROR, message: CANCELLED_MESSAGE }); }
+            parentPort!.postMessage({ type: WMT_EXTRACT_TEXT, message: { text: text_result, segments: processor.getSegments(text_result), ocr: processor.getOcrStats() } });
         }
 
         const responseChunkListener = (chunk: any) => { parentPort!.postMessage({ type: WMT_GLOSSARY_CHUNK, message: chunk }); };
         const glossaryProgressListener = (chunk: any) => { parentPort!.postMessage({ type: WMT_GLOSSARY_PROGRESS, message: chunk }); };
+        const glossaryEntriesListener = (partial: GlossaryPartial) => { parentPort!.postMessage({ type: WMT_GLOSSARY_ENTRIES, message: partial }); };
 
         if (request.type == CWT_EXTRACT_GLOSSARY) {
             glossary.on('response_chunk', responseChunkListener);
             glossary.on('progress', glossaryProgressListener);
+            glossary.on('entries', glossaryEntriesListener);
+            glossary.setSignal(signal);
+            parentPort!.postMessage({ type: WMT_WORKLOAD, message: { stage: 'generation', type: generator, workload: { token: await Tokenizer.countTokens(request.message) } } as StageWorkload });
             var result = await glossary.createGlossary(request.message);
             glossary.removeListener('response_chunk', responseChunkListener);
             glossary.removeListener('progress', glossaryProgressListener);
+            glossary.removeListener('entries', glossaryEntriesListener);
+            if (signal.aborted) { return parentPort!.postMessage({ type: WMT_ERROR, message: CANCELLED_MESSAGE }); }
             parentPort!.postMessage({ type: WMT_EXTRACT_GLOSSARY, message: result });
         }
-
-        if (request.type == CWT_TEXT_GLOSSARY) {
-            glossary.on('response_chunk', responseChunkListener);
-            glossary.on('progress', glossaryProgressListener);
-            glossaryProgressListener(0);
-            var glossary_result = await glossary.createGlossary(text_result);
-            glossary.removeListener('response_chunk', responseChunkListener);
-            glossary.removeListener('progress', glossaryProgressListener);
-            parentPort!.postMessage({ type: WMT_TEXT_GLOSSARY, message: { text: text_result, glossary: glossary_result } });
-        }
     });
 })();
\ No newline at end of file